@@ -4,7 +4,49 @@ import { setupCypressVibeCheck } from "./src";
 export default defineConfig({
   e2e: {
     setupNodeEvents(on, config) {
-      return setupCypressVibeCheck(on, config);
+      return setupCypressVibeCheck(on, config, {
+        // Mock providers that always give the same answer, for the consensus and fallback specs
+        providers: {
+          "mock-pass": {
+            type: "mock",
+            config: {
+              rules: [{ response: { verdict: "yes", confidence: 0.9 } }],
+            },
+          },
+          "mock-pass-low": {
+            type: "mock",
+            config: {
+              rules: [{ response: { verdict: "yes", confidence: 0.6 } }],
+            },
+          },
+          "mock-fail": {
+            type: "mock",
+            config: {
+              rules: [
+                {
+                  response: {
+                    verdict: "no",
+                    confidence: 0.8,
+                    failReason: "The mock provider disagrees",
+                  },
+                },
+              ],
+            },
+          },
+          "mock-down": {
+            type: "mock",
+            config: { rules: [{ error: "Simulated provider outage" }] },
+          },
+          // Mock answers are not cached unless asked to, for the cache specs
+          "mock-cached": {
+            type: "mock",
+            config: {
+              cacheable: true,
+              rules: [{ response: { verdict: "yes", confidence: 0.9 } }],
+            },
+          },
+        },
+      });
     },
   },
   // Configure screenshots
@@ -0,0 +1,40 @@
+import { evaluateElement } from "../support/evaluate";
+
+// Recorded OpenAI answer to "An email input", replayed without an API key
+const cassette = {
+  mode: "replay" as const,
+  path: "cypress/fixtures/vibe-cassette.json",
+};
+
+describe("Cassette replay", () => {
+  beforeEach(() => {
+    cy.visit("https://example.cypress.io/commands/actions");
+  });
+
+  it("should answer from the recorded response", () => {
+    evaluateElement(
+      ".action-email",
+      "An email input",
+      { cache: false, maxRetries: 1, cassette },
+      "openai"
+    ).then((result) => {
+      expect(result.verdict).to.equal("yes");
+      expect(result.confidence).to.equal(0.92);
+      expect(result.reasoning).to.equal(
+        "Recorded answer: the element is an email input"
+      );
+    });
+  });
+
+  it("should fail requests that were not recorded", () => {
+    evaluateElement(
+      ".action-email",
+      "A password input",
+      { cache: false, maxRetries: 1, cassette },
+      "openai"
+    ).then((result) => {
+      expect(result.verdict).to.equal("no");
+      expect(result.reasoning).to.include("No recorded response");
+    });
+  });
+});
@@ -0,0 +1,49 @@
+describe("Vibe a11y", () => {
+  beforeEach(() => {
+    cy.visit("https://example.cypress.io/commands/actions");
+  });
+
+  it("should yield a finding per rule of the rubric", () => {
+    cy.get(".action-email")
+      .vibeA11y({ provider: "mock-pass" })
+      .then((findings) => {
+        expect(findings.map((finding) => finding.rule)).to.deep.equal([
+          "contrast",
+          "legibility",
+          "focus-indicators",
+          "touch-targets",
+          "color-only",
+        ]);
+        expect(findings.every((finding) => finding.passed)).to.equal(true);
+      });
+  });
+
+  it("should audit only the given rules", () => {
+    cy.vibeA11y({
+      provider: "mock-pass",
+      rules: ["contrast", "touch-targets"],
+    }).then((findings) => {
+      expect(findings.map((finding) => finding.rule)).to.deep.equal([
+        "contrast",
+        "touch-targets",
+      ]);
+    });
+  });
+
+  it("should fail on the rules that did not pass", (done) => {
+    cy.on("fail", (error) => {
+      expect(error.message).to.include("Failed criteria (1/5)");
+      expect(error.message).to.include(
+        "The placeholder is light gray on white"
+      );
+      done();
+    });
+
+    // Matched by the "low-contrast" screenshot rule of the mock fixture
+    cy.get(".action-email").vibeA11y({
+      name: "low-contrast",
+      provider: "mock",
+      maxRetries: 1,
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { llmBridgeService } from "../../src/cypress/llm-bridge";
+import { LLMResponse } from "../../src/types/llm";
+
+// Baselines of this spec, removed before and after it so every run records them again
+const BASELINES = "cypress/vibe-baselines/cypress/e2e/mock-baselines*";
+
+/**
+ * Screenshot an element
+ * @param selector Selector of the element
+ * @param name Name of the screenshot
+ * @returns Path of the screenshot
+ */
+function screenshot(selector: string, name: string): Cypress.Chainable<string> {
+  let screenshotPath = "";
+
+  return cy
+    .get(selector)
+    .screenshot(name, {
+      overwrite: true,
+      onAfterScreenshot(el, props) {
+        screenshotPath = props.path;
+      },
+    })
+    .then(() => screenshotPath);
+}
+
+/**
+ * Evaluate a screenshot with the baseline of a check of this spec
+ * @param screenshotPath Path of the screenshot
+ * @param check Name of the check
+ * @param provider Provider to ask
+ * @param specification Specification of the check
+ * @param update Whether to accept a passing result as the new baseline
+ * @returns The result of the evaluation
+ */
+function evaluateWithBaseline(
+  screenshotPath: string,
+  check: string,
+  provider: string,
+  specification = "A blue button",
+  update = false
+): Cypress.Chainable<LLMResponse> {
+  return llmBridgeService.evaluateScreenshotWithBaseline(
+    screenshotPath,
+    specification,
+    { test: ["Baselines"], check, tolerance: "The layout must match", update },
+    {},
+    provider
+  );
+}
+
+// The tests build on the baseline recorded by the first one
+describe("Baselines", () => {
+  before(() => {
+    cy.exec(`rm -rf ${BASELINES}`);
+  });
+
+  after(() => {
+    cy.exec(`rm -rf ${BASELINES}`);
+  });
+
+  beforeEach(() => {
+    cy.visit("https://example.cypress.io/commands/actions");
+  });
+
+  it("should record a passing result and reuse it while nothing changed", () => {
+    screenshot(".action-btn", "baseline-button").then((screenshotPath) => {
+      evaluateWithBaseline(screenshotPath, "button", "mock-pass").then(
+        (result) => {
+          expect(result.verdict).to.equal("yes");
+          expect(result.baseline?.status).to.equal("recorded");
+        }
+      );
+
+      evaluateWithBaseline(screenshotPath, "button", "mock-fail").then(
+        (result) => {
+          // The accepted verdict is reused without asking the provider
+          expect(result.verdict).to.equal("yes");
+          expect(result.baseline?.status).to.equal("unchanged");
+          expect(result.reasoning).to.include("Identical to the baseline");
+        }
+      );
+    });
+  });
+
+  it("should compare a changed screenshot with the baseline", () => {
+    screenshot(".action-email", "baseline-changed").then((screenshotPath) => {
+      evaluateWithBaseline(screenshotPath, "button", "mock-fail").then(
+        (result) => {
+          expect(result.verdict).to.equal("no");
+          expect(result.baseline?.status).to.equal("compared");
+        }
+      );
+    });
+  });
+
+  it("should fail a check whose specification changed since its baseline", () => {
+    screenshot(".action-btn", "baseline-button").then((screenshotPath) => {
+      evaluateWithBaseline(
+        screenshotPath,
+        "button",
+        "mock-pass",
+        "A large blue button"
+      ).then((result) => {
+        expect(result.verdict).to.equal("no");
+        expect(result.baseline?.status).to.equal("outdated");
+        expect(result.failReason).to.include("VIBE_UPDATE_BASELINES=1");
+      });
+    });
+  });
+
+  it("should replace the baseline of a changed specification in update mode", () => {
+    screenshot(".action-btn", "baseline-button").then((screenshotPath) => {
+      evaluateWithBaseline(
+        screenshotPath,
+        "button",
+        "mock-pass",
+        "A large blue button",
+        true
+      ).then((result) => {
+        expect(result.verdict).to.equal("yes");
+        expect(result.baseline?.status).to.equal("updated");
+      });
+
+      evaluateWithBaseline(
+        screenshotPath,
+        "button",
+        "mock-fail",
+        "A large blue button"
+      ).then((result) => {
+        expect(result.verdict).to.equal("yes");
+        expect(result.baseline?.status).to.equal("unchanged");
+      });
+    });
+  });
+
+  it("should not record a failing result", () => {
+    screenshot(".action-btn", "baseline-failing").then((screenshotPath) => {
+      evaluateWithBaseline(screenshotPath, "failing", "mock-fail").then(
+        (result) => {
+          expect(result.verdict).to.equal("no");
+          expect(result.baseline).to.equal(undefined);
+        }
+      );
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { evaluateElement } from "../support/evaluate";
+
+describe("Evaluation cache", () => {
+  // Unique per run, so the first evaluation is never cached by an earlier run
+  const specification = `An email input, run ${Date.now()}`;
+
+  beforeEach(() => {
+    cy.visit("https://example.cypress.io/commands/actions");
+  });
+
+  it("should answer a repeated evaluation from the cache", () => {
+    evaluateElement(".action-email", specification, {}, "mock-cached").then(
+      (first) => {
+        expect(first.cacheStatus).to.equal("miss");
+
+        evaluateElement(".action-email", specification, {}, "mock-cached").then(
+          (second) => {
+            expect(second.cacheStatus).to.equal("hit");
+            expect(second.verdict).to.equal(first.verdict);
+            expect(second.confidence).to.equal(first.confidence);
+          }
+        );
+      }
+    );
+  });
+
+  it("should evaluate a changed specification again", () => {
+    evaluateElement(
+      ".action-email",
+      `${specification}, changed`,
+      {},
+      "mock-cached"
+    ).then((result) => {
+      expect(result.cacheStatus).to.equal("miss");
+    });
+  });
+
+  it("should re-evaluate a cached check in refresh mode", () => {
+    evaluateElement(
+      ".action-email",
+      specification,
+      { cache: "refresh" },
+      "mock-cached"
+    ).then((result) => {
+      expect(result.cacheStatus).to.equal("miss");
+    });
+  });
+
+  it("should bypass the cache when it is turned off", () => {
+    evaluateElement(
+      ".action-email",
+      specification,
+      { cache: false },
+      "mock-cached"
+    ).then((result) => {
+      expect(result.cacheStatus).to.be.undefined;
+    });
+  });
+
+  it("should not cache providers that opt out", () => {
+    evaluateElement(".action-email", specification, {}, "mock").then(
+      (result) => {
+        expect(result.cacheStatus).to.be.undefined;
+      }
+    );
+  });
+});
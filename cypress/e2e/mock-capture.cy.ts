@@ -0,0 +1,96 @@
+/**
+ * Collect the paths of the screenshots taken by the vibe checks of the test
+ * @returns Paths, filled in as the screenshots are taken
+ */
+function collectScreenshotPaths(): string[] {
+  const paths: string[] = [];
+
+  cy.on("log:added", (attributes) => {
+    const match = /^Screenshot captured at: (.+)$/.exec(
+      attributes.message || ""
+    );
+
+    if (match) {
+      paths.push(match[1]);
+    }
+  });
+
+  return paths;
+}
+
+/**
+ * Read the size of a PNG from its header
+ * @param path Path of the PNG
+ * @returns Width and height in pixels
+ */
+function readPngSize(
+  path: string
+): Cypress.Chainable<{ width: number; height: number }> {
+  return cy.readFile(path, "base64", { log: false }).then((data: string) => {
+    const png = Cypress.Buffer.from(data, "base64");
+    return { width: png.readUInt32BE(16), height: png.readUInt32BE(20) };
+  });
+}
+
+describe("Capture modes", () => {
+  beforeEach(() => {
+    cy.visit("https://example.cypress.io/commands/actions");
+  });
+
+  it("should capture the surroundings of a padded element", () => {
+    const paths = collectScreenshotPaths();
+
+    cy.get(".action-email").vibeCheck("An email input", {
+      provider: "mock-pass",
+    });
+    cy.get(".action-email").vibeCheck("An email input with a label above", {
+      provider: "mock-pass",
+      capture: "padded",
+      padding: 24,
+    });
+
+    cy.then(() => {
+      expect(paths).to.have.length(2);
+
+      readPngSize(paths[0]).then((element) => {
+        readPngSize(paths[1]).then((padded) => {
+          expect(padded.width).to.be.greaterThan(element.width);
+          expect(padded.height).to.be.greaterThan(element.height);
+        });
+      });
+    });
+  });
+
+  it("should capture the whole page with vibeCheckPage", () => {
+    const paths = collectScreenshotPaths();
+
+    cy.vibeCheckPage("A page listing the action commands", {
+      provider: "mock-pass",
+    }).then((subject) => {
+      expect(subject).to.equal(null);
+    });
+    cy.vibeCheckPage("A page with a navigation bar at the top", {
+      provider: "mock-pass",
+      capture: "viewport",
+    });
+
+    cy.then(() => {
+      expect(paths).to.have.length(2);
+
+      readPngSize(paths[0]).then((fullPage) => {
+        readPngSize(paths[1]).then((viewport) => {
+          expect(fullPage.height).to.be.greaterThan(viewport.height);
+        });
+      });
+    });
+  });
+
+  it("should fail a page that does not match", (done) => {
+    cy.on("fail", (error) => {
+      expect(error.message).to.include("The mock provider disagrees");
+      done();
+    });
+
+    cy.vibeCheckPage("A blank page", { provider: "mock-fail", maxRetries: 1 });
+  });
+});
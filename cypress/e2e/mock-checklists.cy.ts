@@ -0,0 +1,64 @@
+import { evaluateElement } from "../support/evaluate";
+
+describe("Checklists", () => {
+  // The fixture rule for this checklist fails the "submit" criterion only
+  const checklist = {
+    field: "A text field with a placeholder",
+    submit: "A submit button below the field",
+  };
+
+  beforeEach(() => {
+    cy.visit("https://example.cypress.io/commands/actions");
+  });
+
+  it("should give a verdict per criterion", () => {
+    evaluateElement(
+      ".action-email",
+      Object.entries(checklist)
+        .map(([name, specification]) => `${name}: ${specification}`)
+        .join("\n"),
+      {
+        criteria: Object.entries(checklist).map(([name, specification]) => ({
+          name,
+          specification,
+        })),
+      },
+      "mock"
+    ).then((result) => {
+      expect(result.criteria).to.have.length(2);
+
+      const [field, submit] = result.criteria!;
+      expect(field.name).to.equal("field");
+      expect(field.verdict).to.equal("yes");
+      expect(submit.name).to.equal("submit");
+      expect(submit.verdict).to.equal("no");
+      expect(submit.failReason).to.equal("There is no button below the field");
+
+      // One failing criterion fails the whole checklist
+      expect(result.verdict).to.equal("no");
+    });
+  });
+
+  it("should fail a vibeCheck on the failing criteria only", (done) => {
+    cy.on("fail", (error) => {
+      expect(error.message).to.include("Failed criteria (1/2):");
+      expect(error.message).to.include(
+        '- submit: "A submit button below the field" (no, confidence: 0.85)'
+      );
+      expect(error.message).not.to.include("- field:");
+      done();
+    });
+
+    cy.get(".action-email").vibeCheck(checklist, {
+      provider: "mock",
+      maxRetries: 1,
+    });
+  });
+
+  it("should pass a list of criteria that all pass", () => {
+    cy.get(".action-email").vibeCheck(
+      ["A text field with a placeholder", "The field has a border"],
+      { provider: "mock" }
+    );
+  });
+});
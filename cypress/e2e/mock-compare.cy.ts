@@ -0,0 +1,46 @@
+// Matched by the "reference" rule of the mock fixture
+const REFERENCE = "cypress/fixtures/vibe-reference.png";
+
+describe("Vibe compare", () => {
+  beforeEach(() => {
+    cy.visit("https://example.cypress.io/commands/actions");
+  });
+
+  it("should pass an element the provider finds equivalent", () => {
+    cy.get(".action-btn")
+      .vibeCompare(REFERENCE, "Ignore the text, the colors must match", {
+        provider: "mock-pass",
+      })
+      .should("have.class", "action-btn");
+  });
+
+  it("should fail with the answer of the rule matching the reference", (done) => {
+    cy.on("fail", (error) => {
+      expect(error.message).to.include("Vibe compare failed");
+      expect(error.message).to.include(
+        "The button is larger than in the reference"
+      );
+      done();
+    });
+
+    cy.get(".action-btn").vibeCompare(REFERENCE, undefined, {
+      provider: "mock",
+      maxRetries: 1,
+    });
+  });
+
+  it("should fail when the reference image does not exist", (done) => {
+    cy.on("fail", (error) => {
+      expect(error.message).to.include("Reference image not found");
+      done();
+    });
+
+    cy.get(".action-btn").vibeCompare(
+      "cypress/fixtures/missing.png",
+      undefined,
+      {
+        provider: "mock-pass",
+      }
+    );
+  });
+});
@@ -0,0 +1,73 @@
+import { evaluateElement } from "../support/evaluate";
+
+describe("Consensus", () => {
+  // mock-pass and mock-pass-low pass with 0.9 and 0.6, mock-fail fails with 0.8
+  const providers: Cypress.VibeProviderName[] = [
+    "mock-pass",
+    "mock-pass-low",
+    "mock-fail",
+  ];
+
+  beforeEach(() => {
+    cy.visit("https://example.cypress.io/commands/actions");
+  });
+
+  it("should pass with the majority and its mean confidence", () => {
+    evaluateElement(
+      ".action-email",
+      "An email input",
+      { consensus: { providers, strategy: "majority" } },
+      "mock-pass"
+    ).then((result) => {
+      expect(result.verdict).to.equal("yes");
+      expect(result.confidence).to.be.closeTo(0.75, 0.001);
+      expect(result.providerResults).to.have.length(3);
+    });
+  });
+
+  it("should fail a tie with the majority strategy", () => {
+    evaluateElement(
+      ".action-email",
+      "An email input",
+      { consensus: { providers: ["mock-pass", "mock-fail"] } },
+      "mock-pass"
+    ).then((result) => {
+      expect(result.verdict).to.equal("no");
+    });
+  });
+
+  it("should fail when one provider fails with the all strategy", () => {
+    evaluateElement(
+      ".action-email",
+      "An email input",
+      { consensus: { providers, strategy: "all" } },
+      "mock-pass"
+    ).then((result) => {
+      expect(result.verdict).to.equal("no");
+    });
+  });
+
+  it("should average the confidence that the UI passes with mean-confidence", () => {
+    evaluateElement(
+      ".action-email",
+      "An email input",
+      { consensus: { providers, strategy: "mean-confidence" } },
+      "mock-pass"
+    ).then((result) => {
+      // (0.9 + 0.6 + (1 - 0.8)) / 3
+      expect(result.verdict).to.equal("yes");
+      expect(result.confidence).to.be.closeTo(0.567, 0.001);
+    });
+  });
+
+  it("should fail a vibeCheck when the consensus says no", (done) => {
+    cy.on("fail", (error) => {
+      expect(error.message).to.include("Vibe check failed");
+      done();
+    });
+
+    cy.get(".action-email").vibeCheck("An email input", {
+      consensus: { providers, strategy: "all" },
+    });
+  });
+});
@@ -0,0 +1,44 @@
+describe("Vibe extract", () => {
+  beforeEach(() => {
+    cy.visit("https://example.cypress.io/commands/actions");
+  });
+
+  it("should yield the data of the rule matching the fields", () => {
+    cy.get(".container")
+      .first()
+      .vibeExtract(
+        { heading: "string", fields: "string[]", submitted: "boolean" },
+        { provider: "mock" }
+      )
+      .then((data) => {
+        expect(data).to.deep.equal({
+          heading: "Actions",
+          fields: ["Email address", "Password"],
+          submitted: false,
+        });
+      });
+  });
+
+  it("should fail when the data does not follow the shape", (done) => {
+    cy.on("fail", (error) => {
+      expect(error.message).to.include("Vibe extract failed");
+      expect(error.message).to.include("malformed-response");
+      done();
+    });
+
+    cy.get(".container")
+      .first()
+      .vibeExtract({ heading: "number" }, { provider: "mock", maxRetries: 1 });
+  });
+
+  it("should fail when no rule has data for the fields", (done) => {
+    cy.on("fail", (error) => {
+      expect(error.message).to.include("No mock rule with data matched");
+      done();
+    });
+
+    cy.get(".container")
+      .first()
+      .vibeExtract({ price: "number" }, { provider: "mock", maxRetries: 1 });
+  });
+});
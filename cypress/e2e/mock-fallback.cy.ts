@@ -0,0 +1,60 @@
+import { evaluateElement } from "../support/evaluate";
+
+describe("Fallback providers", () => {
+  beforeEach(() => {
+    cy.visit("https://example.cypress.io/commands/actions");
+  });
+
+  it("should answer with the next provider when the selected one fails", () => {
+    evaluateElement(
+      ".action-email",
+      "An email input",
+      { maxRetries: 1, fallbackProviders: ["mock-pass"] },
+      "mock-down"
+    ).then((result) => {
+      expect(result.verdict).to.equal("yes");
+      expect(result.provider).to.equal("mock-pass");
+      expect(result.failedProviders).to.have.length(1);
+      expect(result.failedProviders![0].provider).to.equal("mock-down");
+      expect(result.failedProviders![0].error).to.include(
+        "Simulated provider outage"
+      );
+    });
+  });
+
+  it("should try the fallback providers in order", () => {
+    evaluateElement(
+      ".action-email",
+      "An email input",
+      { maxRetries: 1, fallbackProviders: ["mock-fail", "mock-pass"] },
+      "mock-down"
+    ).then((result) => {
+      // mock-fail answers, a failing verdict is an answer and ends the chain
+      expect(result.provider).to.equal("mock-fail");
+      expect(result.verdict).to.equal("no");
+    });
+  });
+
+  it("should report an error when every provider in the chain fails", () => {
+    evaluateElement(
+      ".action-email",
+      "An email input",
+      { maxRetries: 1 },
+      "mock-down"
+    ).then((result) => {
+      expect(result.verdict).to.equal("no");
+      expect(result.failReason).to.include(
+        "Error communicating with LLM service"
+      );
+      expect(result.reasoning).to.include("Simulated provider outage");
+    });
+  });
+
+  it("should pass a vibeCheck answered by a fallback provider", () => {
+    cy.get(".action-email").vibeCheck("An email input", {
+      provider: "mock-down",
+      fallbackProviders: ["mock-pass"],
+      maxRetries: 1,
+    });
+  });
+});
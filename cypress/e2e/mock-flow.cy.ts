@@ -0,0 +1,35 @@
+describe("Vibe flow", () => {
+  beforeEach(() => {
+    cy.visit("https://example.cypress.io/commands/actions");
+  });
+
+  it("should pass a flow the provider accepts", () => {
+    cy.vibeFlow("type-email").then((flow) => {
+      flow.step("Empty email field", { selector: ".action-email" });
+      cy.get(".action-email").type("fake@email.com");
+      flow.step("After typing an address", { selector: ".action-email" });
+      flow.check("The typed address shows up in the field", {
+        provider: "mock-pass",
+      });
+    });
+  });
+
+  it("should name the step that broke the expectation", (done) => {
+    cy.on("fail", (error) => {
+      expect(error.message).to.include("No toast appears after the click");
+      // The mock answers with the step number, it is matched to its label
+      expect(error.message).to.include('Failed step: "After clicking Submit"');
+      done();
+    });
+
+    cy.vibeFlow("submit").then((flow) => {
+      flow.step("Filled in form");
+      cy.get(".action-btn").click();
+      flow.step("After clicking Submit");
+      flow.check("After clicking Submit, a toast appears", {
+        provider: "mock",
+        maxRetries: 1,
+      });
+    });
+  });
+});
@@ -0,0 +1,45 @@
+describe("Vibe match", () => {
+  beforeEach(() => {
+    cy.visit("https://example.cypress.io/commands/actions");
+  });
+
+  it("should pass and yield the element", () => {
+    cy.get(".action-email")
+      .should("matchVibe", "An email input", { provider: "mock-pass" })
+      .should("have.class", "action-email");
+  });
+
+  it("should query the element again until the attempts run out", (done) => {
+    cy.on("fail", (error) => {
+      expect(error.message).to.include("Vibe match failed");
+      expect(error.message).to.include("Attempts: 2");
+      done();
+    });
+
+    cy.get(".action-btn").should("matchVibe", "A green button", {
+      provider: "mock-fail",
+      maxRetries: 1,
+      maxAttempts: 2,
+      interval: 0,
+    });
+  });
+
+  it("should query an element found otherwise with the selector option", (done) => {
+    cy.on("fail", (error) => {
+      expect(error.message).to.include("Attempts: 2");
+      done();
+    });
+
+    cy.contains("Click to toggle popover").should(
+      "matchVibe",
+      "A green button",
+      {
+        provider: "mock-fail",
+        maxRetries: 1,
+        maxAttempts: 2,
+        interval: 0,
+        selector: "[data-toggle=popover]",
+      }
+    );
+  });
+});
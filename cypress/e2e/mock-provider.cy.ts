@@ -0,0 +1,32 @@
+describe("Mock Provider", () => {
+  beforeEach(() => {
+    // Visit the example site
+    cy.visit("https://example.cypress.io/commands/actions");
+  });
+
+  it("should pass a vibeCheck matched by a fixture rule", () => {
+    cy.get(".action-email").vibeCheck(
+      "This is an input field for email address entry",
+      { provider: "mock" }
+    );
+  });
+
+  it("should fall back to the fixture default response", () => {
+    cy.get(".action-btn").vibeCheck("A button to toggle a popover", {
+      provider: "mock",
+    });
+  });
+
+  it("should fail a vibeCheck when the fixture rule says no", (done) => {
+    cy.on("fail", (error) => {
+      expect(error.message).to.include("Vibe check failed");
+      expect(error.message).to.include("The button is blue, not green");
+      done();
+    });
+
+    cy.get(".action-btn").vibeCheck("A green button", {
+      provider: "mock",
+      maxRetries: 1,
+    });
+  });
+});
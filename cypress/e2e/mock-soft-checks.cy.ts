@@ -0,0 +1,80 @@
+// The tests come in pairs: the soft failures of a test are raised by an
+// afterEach hook once it passed, and the next test checks what was raised
+describe("Soft checks", () => {
+  let raised: Error | undefined;
+
+  /**
+   * Keep the soft failures raised after a test instead of failing the suite
+   * @param error Error of the test or hook
+   */
+  const keepSoftFailures = (error: Error) => {
+    if (!/soft vibe checks? failed/.test(error.message)) {
+      throw error;
+    }
+
+    raised = error;
+  };
+
+  before(() => {
+    Cypress.on("fail", keepSoftFailures);
+  });
+
+  after(() => {
+    Cypress.off("fail", keepSoftFailures);
+  });
+
+  beforeEach(() => {
+    cy.visit("https://example.cypress.io/commands/actions");
+  });
+
+  afterEach(() => {
+    cy.configureVibes({ mode: "strict" });
+  });
+
+  it("should go on after a soft failure", () => {
+    cy.get(".action-btn").vibeCheck("A green button", {
+      provider: "mock",
+      maxRetries: 1,
+      soft: true,
+    });
+    cy.get(".action-email")
+      .vibeCheck("This is an input field for email address entry", {
+        provider: "mock",
+      })
+      .should("have.class", "action-email");
+  });
+
+  it("should have raised the soft failure after the previous test", () => {
+    expect(raised?.message).to.include("1 soft vibe check failed");
+    expect(raised?.message).to.include("The button is blue, not green");
+    raised = undefined;
+  });
+
+  it("should collect every soft failure of a test in soft mode", () => {
+    cy.configureVibes({ mode: "soft" });
+    cy.get(".action-btn").vibeCheck("A green button", {
+      provider: "mock",
+      maxRetries: 1,
+    });
+    cy.get(".action-btn").vibeCheck("A large green button", {
+      provider: "mock",
+      maxRetries: 1,
+    });
+  });
+
+  it("should have raised the soft failures together", () => {
+    expect(raised?.message).to.include("2 soft vibe checks failed");
+    raised = undefined;
+  });
+
+  it("should pass a test whose soft checks pass", () => {
+    cy.get(".action-email").vibeCheck(
+      "This is an input field for email address entry",
+      { provider: "mock", soft: true }
+    );
+  });
+
+  it("should have raised nothing after passing soft checks", () => {
+    expect(raised).to.equal(undefined);
+  });
+});
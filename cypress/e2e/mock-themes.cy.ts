@@ -0,0 +1,65 @@
+describe("Theme matrix", () => {
+  beforeEach(() => {
+    cy.visit("https://example.cypress.io/commands/actions");
+  });
+
+  it("should pass in every theme and undo the application theme", () => {
+    cy.get(".action-email").vibeCheck("An email input", {
+      provider: "mock-pass",
+      themes: ["light", { name: "contrast", htmlClass: "theme-contrast" }],
+    });
+    cy.get("html").should("not.have.class", "theme-contrast");
+  });
+
+  it("should report the themes the check failed in", (done) => {
+    cy.on("fail", (error) => {
+      expect(error.message).to.include("failed in 1 of 2 variants: dark");
+      expect(error.message).to.include(
+        "The label is unreadable on the dark background"
+      );
+      done();
+    });
+
+    // Matched by the "themed-dark" screenshot rule of the mock fixture
+    cy.get(".action-email").vibeCheck("An email input", {
+      name: "themed",
+      provider: "mock",
+      maxRetries: 1,
+      themes: ["light", "dark"],
+    });
+  });
+
+  it("should fail when a theme cannot be applied", (done) => {
+    cy.on("fail", (error) => {
+      expect(error.message).to.include("The theme could not be applied");
+      done();
+    });
+
+    cy.get(".action-email").vibeCheck("An email input", {
+      provider: "mock-pass",
+      themes: [
+        {
+          name: "broken",
+          colorScheme: "dark",
+          htmlClass: "theme-broken",
+          apply: () => {
+            throw new Error("The theme could not be applied");
+          },
+        },
+      ],
+    });
+  });
+
+  // Runs after the failure above, which left the dark color scheme emulated
+  it("should have reset the theme of the failed check", () => {
+    cy.window().then((window) => {
+      expect(
+        window.matchMedia("(prefers-color-scheme: dark)").matches
+      ).to.equal(false);
+    });
+    cy.get("html").should("not.have.class", "theme-broken");
+    cy.get(".action-email").vibeCheck("An email input", {
+      provider: "mock-pass",
+    });
+  });
+});
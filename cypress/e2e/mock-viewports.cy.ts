@@ -0,0 +1,32 @@
+describe("Viewport matrix", () => {
+  beforeEach(() => {
+    cy.visit("https://example.cypress.io/commands/actions");
+  });
+
+  it("should pass at every viewport and restore the viewport", () => {
+    cy.get(".action-email").vibeCheck("An email input", {
+      provider: "mock-pass",
+      viewports: ["iphone-x", [1280, 800]],
+    });
+    cy.window().its("innerWidth").should("equal", 1000);
+  });
+
+  it("should report the viewports the check failed at", (done) => {
+    cy.on("fail", (error) => {
+      expect(error.message).to.include("1 of 2");
+      expect(error.message).to.include("iphone-x");
+      expect(error.message).to.include(
+        "The form is cut off on the phone screen"
+      );
+      done();
+    });
+
+    // Matched by the "layout-iphone-x" screenshot rule of the mock fixture
+    cy.get(".action-email").vibeCheck("An email input", {
+      name: "layout",
+      provider: "mock",
+      maxRetries: 1,
+      viewports: ["iphone-x", [1280, 800]],
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { llmBridgeService } from "../../src/cypress/llm-bridge";
+import { EvaluateOptions, LLMResponse } from "../../src/types/llm";
+
+// Mock providers registered in cypress.config.ts
+declare global {
+  namespace Cypress {
+    interface VibeProviders {
+      "mock-pass": true;
+      "mock-pass-low": true;
+      "mock-fail": true;
+      "mock-down": true;
+      "mock-cached": true;
+    }
+  }
+}
+
+/**
+ * Screenshot an element and evaluate it, yielding the whole result so specs
+ * can check how it was answered
+ * @param selector Selector of the element
+ * @param specification Specification to evaluate against
+ * @param options Evaluation options
+ * @param provider Provider to ask
+ * @returns The result of the evaluation
+ */
+export function evaluateElement(
+  selector: string,
+  specification: string,
+  options: EvaluateOptions,
+  provider: string
+): Cypress.Chainable<LLMResponse> {
+  let screenshotPath = "";
+
+  return cy
+    .get(selector)
+    .screenshot(Cypress.currentTest.title.replace(/\W+/g, "-"), {
+      overwrite: true,
+      onAfterScreenshot(el, props) {
+        screenshotPath = props.path;
+      },
+    })
+    .then(() =>
+      llmBridgeService.evaluateScreenshot(
+        screenshotPath,
+        specification,
+        options,
+        provider
+      )
+    );
+}
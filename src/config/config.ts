@@ -1,4 +1,11 @@
-import { LLMProviderConfig, LLMProviderType } from "../types/llm";
+import {
+  ConsensusOptions,
+  LLMProviderConfig,
+  LLMProviderType,
+  ModelPrice,
+  RetryPolicy,
+} from "../types/llm";
+import { VibeBudget } from "../utils/usage";
 
 // Type guard for Cypress global object
 declare global {
@@ -38,7 +45,65 @@ export interface VibeConfig {
 
     /** Additional model parameters to pass to the LLM */
     modelParameters: Record<string, any>;
+
+    /** Evaluate with several providers and combine their verdicts */
+    consensus?: ConsensusOptions;
+
+    /** Providers to try in order when the selected provider fails */
+    fallbackProviders?: string[];
+
+    /** Delays and failure classes of the retries */
+    retryPolicy?: RetryPolicy;
+
+    /** "soft" reports failing checks at the end of the test instead of right away */
+    mode?: "strict" | "soft";
+  };
+
+  /** Disk cache of evaluation results */
+  cache: {
+    /** Whether evaluations are cached */
+    enabled: boolean;
+
+    /** Directory of the cache, relative to the working directory */
+    directory: string;
+
+    /** How long a cached evaluation stays valid in milliseconds */
+    ttlMs: number;
+
+    /** Re-evaluate every check and overwrite the cached results */
+    refresh?: boolean;
+  };
+
+  /** Record/replay cassettes of the provider requests */
+  cassettes: {
+    /**
+     * - "off": requests go to the providers (default)
+     * - "record": requests go to the providers and are saved next to the spec
+     * - "replay": saved responses are served, no API keys are needed
+     */
+    mode: "off" | "record" | "replay";
+
+    /** Directory of the cassettes, relative to the directory of each spec */
+    directory: string;
+  };
+
+  /** Golden baselines of the checks, compared against on later runs */
+  baselines: {
+    /** Whether checks use baselines by default */
+    enabled: boolean;
+
+    /** Directory of the baselines, relative to the project root */
+    directory: string;
+
+    /** Accept the current results, replacing existing baselines */
+    update?: boolean;
   };
+
+  /** Limits on what a test run may spend on vibe checks */
+  budget?: VibeBudget;
+
+  /** Model prices in US dollars per million tokens, added to or replacing the defaults */
+  prices?: Record<string, ModelPrice>;
 }
 
 /**
@@ -62,6 +127,45 @@ export const defaultConfig: VibeConfig = {
         defaultConfidenceThreshold: 0.6,
       },
     },
+    azure: {
+      type: "azure-openai",
+      config: {
+        apiKey: process.env.AZURE_OPENAI_API_KEY || "",
+        endpoint: process.env.AZURE_OPENAI_ENDPOINT || "",
+        deployment: process.env.AZURE_OPENAI_DEPLOYMENT || "",
+        defaultConfidenceThreshold: 0.6,
+      },
+    },
+    "openai-compatible": {
+      type: "openai-compatible",
+      config: {
+        apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || "",
+        baseUrl: process.env.OPENAI_COMPATIBLE_BASE_URL || "",
+        defaultConfidenceThreshold: 0.6,
+      },
+    },
+    gemini: {
+      type: "gemini",
+      config: {
+        apiKey: process.env.GEMINI_API_KEY || "",
+        defaultConfidenceThreshold: 0.6,
+      },
+    },
+    local: {
+      type: "local",
+      config: {
+        baseUrl: process.env.VIBE_LOCAL_BASE_URL || "http://localhost:11434",
+        model: process.env.VIBE_LOCAL_MODEL || "llava",
+        defaultConfidenceThreshold: 0.6,
+      },
+    },
+    mock: {
+      type: "mock",
+      config: {
+        fixturePath:
+          process.env.VIBE_MOCK_FIXTURE || "cypress/fixtures/vibe-mock.json",
+      },
+    },
   },
   evaluation: {
     confidenceThreshold: 0.8,
@@ -69,13 +173,28 @@ export const defaultConfig: VibeConfig = {
     maxRetries: 2,
     modelParameters: {},
   },
+  cache: {
+    enabled: true,
+    directory: "node_modules/.cache/cypress-vibe-check",
+    ttlMs: 7 * 24 * 60 * 60 * 1000,
+  },
+  cassettes: {
+    mode: "off",
+    directory: "__vibe_cassettes__",
+  },
+  baselines: {
+    enabled: false,
+    directory: "cypress/vibe-baselines",
+  },
 };
 
 /**
  * Load configuration from environment variables and Cypress config
+ * @param cypressEnvConfig Optional "vibe" object from the Cypress environment,
+ * used in the Node.js context where Cypress.env() is not available
  * @returns Unified configuration for the visual testing framework
  */
-export function loadConfig(): VibeConfig {
+export function loadConfig(cypressEnvConfig?: Record<string, any>): VibeConfig {
   // Start with the default config
   const config = { ...defaultConfig };
 
@@ -92,55 +211,77 @@ export function loadConfig(): VibeConfig {
     config.providers.anthropic.config.apiKey = process.env.ANTHROPIC_API_KEY;
   }
 
-  // Try to get Cypress configuration
-  try {
-    // In browser context (Cypress tests)
-    if (typeof window !== "undefined" && window.Cypress) {
-      const cypressVibeConfig = window.Cypress.env("vibe") || {};
+  if (process.env.AZURE_OPENAI_API_KEY) {
+    config.providers.azure.config.apiKey = process.env.AZURE_OPENAI_API_KEY;
+  }
 
-      // Override with any settings from Cypress config
-      if (cypressVibeConfig.defaultProvider) {
-        config.defaultProvider = cypressVibeConfig.defaultProvider;
-      }
+  if (process.env.AZURE_OPENAI_ENDPOINT) {
+    config.providers.azure.config.endpoint = process.env.AZURE_OPENAI_ENDPOINT;
+  }
 
-      if (cypressVibeConfig.defaultConfidenceThreshold !== undefined) {
-        config.evaluation.confidenceThreshold =
-          cypressVibeConfig.defaultConfidenceThreshold;
-      }
+  if (process.env.AZURE_OPENAI_DEPLOYMENT) {
+    config.providers.azure.config.deployment =
+      process.env.AZURE_OPENAI_DEPLOYMENT;
+  }
 
-      if (cypressVibeConfig.includeRawResponse !== undefined) {
-        config.evaluation.includeRawResponse =
-          cypressVibeConfig.includeRawResponse;
-      }
+  if (process.env.OPENAI_COMPATIBLE_API_KEY) {
+    config.providers["openai-compatible"].config.apiKey =
+      process.env.OPENAI_COMPATIBLE_API_KEY;
+  }
 
-      if (cypressVibeConfig.maxRetries !== undefined) {
-        config.evaluation.maxRetries = cypressVibeConfig.maxRetries;
-      }
+  if (process.env.OPENAI_COMPATIBLE_BASE_URL) {
+    config.providers["openai-compatible"].config.baseUrl =
+      process.env.OPENAI_COMPATIBLE_BASE_URL;
+  }
 
-      if (cypressVibeConfig.modelParameters) {
-        config.evaluation.modelParameters = {
-          ...config.evaluation.modelParameters,
-          ...cypressVibeConfig.modelParameters,
-        };
-      }
+  if (process.env.GEMINI_API_KEY) {
+    config.providers.gemini.config.apiKey = process.env.GEMINI_API_KEY;
+  }
 
-      if (cypressVibeConfig.providers) {
-        // Merge provider configs
-        for (const [name, providerConfig] of Object.entries(
-          cypressVibeConfig.providers
-        )) {
-          if (typeof providerConfig === "object") {
-            config.providers[name] = {
-              ...config.providers[name],
-              ...(providerConfig as any),
-              config: {
-                ...(config.providers[name]?.config || {}),
-                ...((providerConfig as any).config || {}),
-              },
-            };
-          }
-        }
-      }
+  if (process.env.VIBE_LOCAL_BASE_URL) {
+    config.providers.local.config.baseUrl = process.env.VIBE_LOCAL_BASE_URL;
+  }
+
+  if (process.env.VIBE_LOCAL_MODEL) {
+    config.providers.local.config.model = process.env.VIBE_LOCAL_MODEL;
+  }
+
+  if (process.env.VIBE_MOCK_FIXTURE) {
+    config.providers.mock.config.fixturePath = process.env.VIBE_MOCK_FIXTURE;
+  }
+
+  if (
+    process.env.VIBE_CASSETTE === "record" ||
+    process.env.VIBE_CASSETTE === "replay" ||
+    process.env.VIBE_CASSETTE === "off"
+  ) {
+    config.cassettes = { ...config.cassettes, mode: process.env.VIBE_CASSETTE };
+  }
+
+  // VIBE_CACHE=off disables the cache, VIBE_CACHE=refresh re-evaluates everything
+  if (process.env.VIBE_CACHE === "off") {
+    config.cache = { ...config.cache, enabled: false };
+  } else if (process.env.VIBE_CACHE === "refresh") {
+    config.cache = { ...config.cache, refresh: true };
+  }
+
+  // VIBE_UPDATE_BASELINES=1 accepts the current results as the new baselines
+  if (
+    process.env.VIBE_UPDATE_BASELINES === "1" ||
+    process.env.VIBE_UPDATE_BASELINES === "true"
+  ) {
+    config.baselines = { ...config.baselines, update: true };
+  }
+
+  // Try to get Cypress configuration
+  try {
+    // Settings handed over explicitly (Cypress plugin, from config.env.vibe)
+    if (cypressEnvConfig) {
+      mergeCypressVibeConfig(config, cypressEnvConfig);
+    }
+    // In browser context (Cypress tests)
+    else if (typeof window !== "undefined" && window.Cypress) {
+      mergeCypressVibeConfig(config, window.Cypress.env("vibe") || {});
     }
     // In Node.js context (Cypress plugin)
     else {
@@ -189,3 +330,96 @@ export function loadConfig(): VibeConfig {
 
   return config;
 }
+
+/**
+ * Merge the "vibe" object from the Cypress environment into a configuration
+ * @param config Configuration to update in place
+ * @param cypressVibeConfig Value of Cypress.env("vibe")
+ */
+function mergeCypressVibeConfig(
+  config: VibeConfig,
+  cypressVibeConfig: Record<string, any>
+): void {
+  if (cypressVibeConfig.defaultProvider) {
+    config.defaultProvider = cypressVibeConfig.defaultProvider;
+  }
+
+  if (cypressVibeConfig.defaultConfidenceThreshold !== undefined) {
+    config.evaluation.confidenceThreshold =
+      cypressVibeConfig.defaultConfidenceThreshold;
+  }
+
+  if (cypressVibeConfig.includeRawResponse !== undefined) {
+    config.evaluation.includeRawResponse = cypressVibeConfig.includeRawResponse;
+  }
+
+  if (cypressVibeConfig.maxRetries !== undefined) {
+    config.evaluation.maxRetries = cypressVibeConfig.maxRetries;
+  }
+
+  if (cypressVibeConfig.modelParameters) {
+    config.evaluation.modelParameters = {
+      ...config.evaluation.modelParameters,
+      ...cypressVibeConfig.modelParameters,
+    };
+  }
+
+  if (cypressVibeConfig.consensus) {
+    config.evaluation.consensus = cypressVibeConfig.consensus;
+  }
+
+  if (cypressVibeConfig.fallbackProviders) {
+    config.evaluation.fallbackProviders = cypressVibeConfig.fallbackProviders;
+  }
+
+  if (cypressVibeConfig.retryPolicy) {
+    config.evaluation.retryPolicy = {
+      ...config.evaluation.retryPolicy,
+      ...cypressVibeConfig.retryPolicy,
+    };
+  }
+
+  if (cypressVibeConfig.cache !== undefined) {
+    config.cache =
+      typeof cypressVibeConfig.cache === "boolean"
+        ? { ...config.cache, enabled: cypressVibeConfig.cache }
+        : { ...config.cache, ...cypressVibeConfig.cache };
+  }
+
+  if (cypressVibeConfig.cassettes) {
+    config.cassettes = { ...config.cassettes, ...cypressVibeConfig.cassettes };
+  }
+
+  if (cypressVibeConfig.baselines !== undefined) {
+    config.baselines =
+      typeof cypressVibeConfig.baselines === "boolean"
+        ? { ...config.baselines, enabled: cypressVibeConfig.baselines }
+        : { ...config.baselines, ...cypressVibeConfig.baselines };
+  }
+
+  if (cypressVibeConfig.budget) {
+    config.budget = { ...config.budget, ...cypressVibeConfig.budget };
+  }
+
+  if (cypressVibeConfig.prices) {
+    config.prices = { ...config.prices, ...cypressVibeConfig.prices };
+  }
+
+  if (cypressVibeConfig.providers) {
+    // Merge provider configs
+    for (const [name, providerConfig] of Object.entries(
+      cypressVibeConfig.providers
+    )) {
+      if (typeof providerConfig === "object") {
+        config.providers[name] = {
+          ...config.providers[name],
+          ...(providerConfig as any),
+          config: {
+            ...(config.providers[name]?.config || {}),
+            ...((providerConfig as any).config || {}),
+          },
+        };
+      }
+    }
+  }
+}
@@ -0,0 +1,311 @@
+import { A11yElementFacts } from "../../types/llm";
+
+/** Elements described at most, so the prompt stays small */
+const MAX_ELEMENTS = 40;
+
+/** Elements that can be interacted with */
+const INTERACTIVE_SELECTOR = [
+  "a[href]",
+  "button",
+  "input:not([type=hidden])",
+  "select",
+  "textarea",
+  "summary",
+  "[tabindex]:not([tabindex='-1'])",
+  "[role=button]",
+  "[role=link]",
+  "[role=checkbox]",
+  "[role=radio]",
+  "[role=switch]",
+  "[role=tab]",
+  "[role=menuitem]",
+].join(",");
+
+/** Roles implied by tags, for elements without an explicit role */
+const IMPLICIT_ROLES: Record<string, string> = {
+  a: "link",
+  button: "button",
+  select: "combobox",
+  textarea: "textbox",
+  summary: "button",
+  h1: "heading",
+  h2: "heading",
+  h3: "heading",
+  h4: "heading",
+  h5: "heading",
+  h6: "heading",
+  img: "img",
+  nav: "navigation",
+  li: "listitem",
+};
+
+/**
+ * Part of the page in a screenshot, in viewport coordinates
+ */
+export interface CapturedArea {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+/**
+ * Collect what the browser knows about the visible elements of a part of the
+ * page, for an accessibility audit
+ * Interactive elements come first, then elements with their own text
+ * @param root Element whose descendants are described, itself included
+ * @param area Part of the page the screenshot shows, the whole page if omitted
+ * @returns Facts of at most MAX_ELEMENTS elements
+ */
+export function collectA11yFacts(
+  root: HTMLElement,
+  area?: CapturedArea
+): A11yElementFacts[] {
+  // The model cannot judge elements that are not in the screenshot
+  const candidates = [
+    root,
+    ...Array.from(root.querySelectorAll<HTMLElement>("*")),
+  ].filter(
+    (element) => isVisible(element) && (!area || isInArea(element, area))
+  );
+
+  const interactive = candidates.filter((element) =>
+    element.matches(INTERACTIVE_SELECTOR)
+  );
+  const text = candidates.filter(
+    (element) =>
+      !element.matches(INTERACTIVE_SELECTOR) && getOwnText(element).length > 0
+  );
+
+  return [...interactive, ...text]
+    .slice(0, MAX_ELEMENTS)
+    .map((element) => describeElement(element, interactive.includes(element)));
+}
+
+/**
+ * Measure the facts of a single element
+ * @param element Element to describe
+ * @param interactive Whether it can be interacted with
+ * @returns Facts of the element
+ */
+function describeElement(
+  element: HTMLElement,
+  interactive: boolean
+): A11yElementFacts {
+  const style = getStyle(element);
+  const rect = element.getBoundingClientRect();
+  const backgroundColor = getBackgroundColor(element);
+  const contrastRatio = getContrastRatio(style.color, backgroundColor);
+
+  const attributes: Record<string, string> = {};
+  for (const attribute of Array.from(element.attributes)) {
+    if (
+      attribute.name.startsWith("aria-") ||
+      ["alt", "title", "type", "disabled"].includes(attribute.name)
+    ) {
+      attributes[attribute.name] = attribute.value;
+    }
+  }
+
+  return {
+    element: getDescription(element),
+    role:
+      element.getAttribute("role") ||
+      IMPLICIT_ROLES[element.tagName.toLowerCase()] ||
+      undefined,
+    attributes: Object.keys(attributes).length > 0 ? attributes : undefined,
+    color: style.color,
+    backgroundColor,
+    contrastRatio:
+      contrastRatio !== undefined
+        ? Math.round(contrastRatio * 100) / 100
+        : undefined,
+    font: `${style.fontSize} ${style.fontWeight}`,
+    width: Math.round(rect.width),
+    height: Math.round(rect.height),
+    interactive,
+    focused: element.ownerDocument.activeElement === element,
+    outline: interactive
+      ? `${style.outlineStyle} ${style.outlineWidth}`
+      : undefined,
+  };
+}
+
+/**
+ * Get the computed style of an element, from the window it belongs to
+ * @param element Element of the application under test
+ * @returns Computed style
+ */
+function getStyle(element: Element): CSSStyleDeclaration {
+  return (element.ownerDocument.defaultView || window).getComputedStyle(
+    element
+  );
+}
+
+/**
+ * Whether an element is rendered and not hidden
+ * @param element Element to check
+ * @returns True if it takes up space and is visible
+ */
+function isVisible(element: HTMLElement): boolean {
+  const style = getStyle(element);
+  const rect = element.getBoundingClientRect();
+
+  return (
+    rect.width > 0 &&
+    rect.height > 0 &&
+    style.visibility !== "hidden" &&
+    style.display !== "none" &&
+    parseFloat(style.opacity) > 0
+  );
+}
+
+/**
+ * Whether an element overlaps a part of the page
+ * @param element Element to check
+ * @param area Part of the page, in viewport coordinates
+ * @returns True if some of the element is inside the area
+ */
+function isInArea(element: HTMLElement, area: CapturedArea): boolean {
+  const rect = element.getBoundingClientRect();
+
+  return (
+    rect.right > area.left &&
+    rect.left < area.right &&
+    rect.bottom > area.top &&
+    rect.top < area.bottom
+  );
+}
+
+/**
+ * Text of the element's own text nodes, without the text of its children
+ * @param element Element to read
+ * @returns Trimmed text
+ */
+function getOwnText(element: HTMLElement): string {
+  return Array.from(element.childNodes)
+    .filter((node) => node.nodeType === Node.TEXT_NODE)
+    .map((node) => node.textContent || "")
+    .join(" ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Describe an element the way a person would recognize it in the screenshot
+ * @param element Element to describe
+ * @returns Description such as 'button.primary "Save"'
+ */
+function getDescription(element: HTMLElement): string {
+  const tag = element.tagName.toLowerCase();
+  const id = element.id ? `#${element.id}` : "";
+  const classes = Array.from(element.classList)
+    .slice(0, 2)
+    .map((name) => `.${name}`)
+    .join("");
+  const label = (
+    element.getAttribute("aria-label") ||
+    element.innerText ||
+    element.textContent ||
+    element.getAttribute("placeholder") ||
+    element.getAttribute("alt") ||
+    ""
+  )
+    .replace(/\s+/g, " ")
+    .trim();
+
+  return `${tag}${id}${classes}${
+    label ? ` "${label.length > 40 ? `${label.slice(0, 40)}...` : label}"` : ""
+  }`;
+}
+
+/**
+ * Get the color behind an element, from the nearest ancestor that paints one
+ * @param element Element to look behind
+ * @returns Computed background color, white when no ancestor has one
+ */
+function getBackgroundColor(element: HTMLElement): string {
+  for (
+    let current: Element | null = element;
+    current;
+    current = current.parentElement
+  ) {
+    const color = getStyle(current).backgroundColor;
+    const rgba = parseColor(color);
+
+    if (rgba && rgba[3] > 0) {
+      return color;
+    }
+  }
+
+  return "rgb(255, 255, 255)";
+}
+
+/**
+ * Parse a computed color
+ * @param color Color such as "rgb(0, 0, 0)" or "rgba(0, 0, 0, 0.5)"
+ * @returns Red, green, blue and alpha, or undefined for other formats
+ */
+function parseColor(
+  color: string
+): [number, number, number, number] | undefined {
+  const match = color.match(
+    /^rgba?\(\s*([\d.]+)[,\s]+([\d.]+)[,\s]+([\d.]+)(?:\s*[,/]\s*([\d.]+))?\s*\)$/
+  );
+
+  if (!match) {
+    return undefined;
+  }
+
+  return [
+    parseFloat(match[1]),
+    parseFloat(match[2]),
+    parseFloat(match[3]),
+    match[4] === undefined ? 1 : parseFloat(match[4]),
+  ];
+}
+
+/**
+ * WCAG contrast ratio of two colors
+ * @param foreground Text color
+ * @param background Background color
+ * @returns Ratio from 1 to 21, or undefined if a color is translucent or unknown
+ */
+function getContrastRatio(
+  foreground: string,
+  background: string
+): number | undefined {
+  const colors = [parseColor(foreground), parseColor(background)];
+
+  // Translucent colors depend on what is behind them, the model judges those
+  if (colors.some((color) => !color || color[3] < 1)) {
+    return undefined;
+  }
+
+  const [lighter, darker] = colors
+    .map((color) => getLuminance(color as [number, number, number, number]))
+    .sort((a, b) => b - a);
+
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+/**
+ * WCAG relative luminance of a color
+ * @param color Red, green and blue from 0 to 255
+ * @returns Luminance from 0 to 1
+ */
+function getLuminance([red, green, blue]: [
+  number,
+  number,
+  number,
+  number,
+]): number {
+  const [r, g, b] = [red, green, blue].map((channel) => {
+    const value = channel / 255;
+    return value <= 0.03928
+      ? value / 12.92
+      : Math.pow((value + 0.055) / 1.055, 2.4);
+  });
+
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
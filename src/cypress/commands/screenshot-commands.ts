@@ -2,12 +2,29 @@
 import path from "path";
 // Import the LLM bridge service from the package
 import { llmBridgeService } from "../llm-bridge";
+import { CapturedArea, collectA11yFacts } from "./a11y-facts";
 // Import the centralized configuration
 import { loadConfig, VibeConfig } from "../../config/config";
+import {
+  Criterion,
+  EvaluateOptions,
+  ExtractionShape,
+  FlowStep,
+  LLMResponse,
+} from "../../types/llm";
 
 // Create a reference for the runtime config in the browser context
 let runtimeConfig: VibeConfig;
 
+// Checks of the current test by name, so repeated names get a stable suffix
+const checkCounts: Map<string, number> = new Map();
+
+// Failure messages of the soft checks of the current test
+const softFailures: string[] = [];
+
+// Theme of a check matrix that is applied and not yet undone
+let activeTheme: Exclude<Cypress.VibeTheme, string> | undefined;
+
 /**
  * Register Cypress commands for vibe checks
  * This function should be called from a Cypress support file
@@ -16,15 +33,60 @@ export function registerVibeCommands() {
   // Initialize runtime config from the centralized configuration
   runtimeConfig = loadConfig();
 
+  // Check names and soft failures restart with every test, and with every retry of it
+  beforeEach(() => {
+    checkCounts.clear();
+    softFailures.length = 0;
+  });
+
+  // A check that failed while a theme was applied leaves it behind, and the
+  // emulated color scheme would outlive the page, so undo it for the next test
+  afterEach(() => {
+    if (activeTheme) {
+      resetTheme(activeTheme);
+    }
+  });
+
+  // Raise the soft failures of the test together
+  afterEach(function () {
+    const failures = softFailures.splice(0);
+
+    // A test that already failed reports its own error, the soft failures stay in the log
+    if (failures.length === 0 || this.currentTest?.state === "failed") {
+      return;
+    }
+
+    throw new Error(
+      [
+        `${failures.length} soft vibe check${
+          failures.length === 1 ? "" : "s"
+        } failed:`,
+        ...failures,
+      ].join("\n\n")
+    );
+  });
+
   /**
    * Configure global settings for vibe checks
    */
   Cypress.Commands.add("configureVibes", (options) => {
     // Update runtime configuration with provided options
-    Object.assign(runtimeConfig, options);
+    const { provider, ...evaluation } = options;
+
+    if (provider) {
+      runtimeConfig.defaultProvider = provider;
+    }
+
+    Object.assign(runtimeConfig.evaluation, evaluation);
 
     cy.log(
-      `Vibe checks configured with provider: ${runtimeConfig.defaultProvider}, confidence: ${runtimeConfig.evaluation.confidenceThreshold}`
+      `Vibe checks configured with provider: ${
+        runtimeConfig.evaluation.consensus
+          ? `consensus of ${runtimeConfig.evaluation.consensus.providers.join(
+              ", "
+            )}`
+          : runtimeConfig.defaultProvider
+      }, confidence: ${runtimeConfig.evaluation.confidenceThreshold}`
     );
 
     return cy.wrap(null, { log: false });
@@ -42,120 +104,1386 @@ export function registerVibeCommands() {
         throw new Error("No element found for vibeCheck");
       }
 
-      // Merge options with runtime config
-      const mergedOptions = {
-        ...runtimeConfig.evaluation,
-        provider: runtimeConfig.defaultProvider,
-        ...options,
-      };
-
-      // Generate a screenshot name
-      const testName = Cypress.currentTest.title
-        .replace(/\s+/g, "-")
-        .toLowerCase();
-      const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-      const name = options.name ? options.name : "vibe-check";
-      const screenshotName = `${testName}-${name}-${timestamp}.png`;
-
-      // Get screenshot directory from Cypress config
-      const screenshotDir =
-        Cypress.config("screenshotsFolder") || "cypress/screenshots";
-
-      // Use the test file name as the directory, rather than llm-tests
-      // This matches where Cypress actually saves the screenshots
-      const testFileName = Cypress.spec.name;
-      const llmScreenshotDir = path.join(screenshotDir, testFileName);
-      const screenshotPath = path.join(llmScreenshotDir, screenshotName);
-      let capturedScreenshotPath = screenshotPath; // Create a mutable variable to store the actual path
-
-      // Log the check
+      return runVibeCheck(subject, specification, options);
+    }
+  );
+
+  /**
+   * Compare an element with a reference image using LLM
+   */
+  Cypress.Commands.add(
+    "vibeCompare",
+    { prevSubject: "element" },
+    (
+      subject,
+      referencePath,
+      specification = DEFAULT_COMPARISON_SPECIFICATION,
+      options = {}
+    ) => {
+      if (!subject || subject.length === 0) {
+        throw new Error("No element found for vibeCompare");
+      }
+
+      return runVibeCheck(subject, specification, options, referencePath);
+    }
+  );
+
+  /**
+   * Read structured data off an element using LLM
+   */
+  Cypress.Commands.add(
+    "vibeExtract",
+    { prevSubject: "element" },
+    (
+      subject: JQuery<HTMLElement>,
+      shape: ExtractionShape,
+      options: VibeExtractOptions = {}
+    ) => {
+      if (!subject || subject.length === 0) {
+        throw new Error("No element found for vibeExtract");
+      }
+
+      const mergedOptions = getMergedOptions(options);
+      const fields = Object.keys(shape).join(", ");
+
       Cypress.log({
-        name: "vibeCheck",
-        message: `"${specification.substring(0, 40)}${
-          specification.length > 40 ? "..." : ""
-        }"`,
+        name: "vibeExtract",
+        message: fields,
         consoleProps: () => ({
-          Specification: specification,
+          Shape: shape,
           Element: subject,
-          "Screenshot Path": screenshotPath,
           Provider: mergedOptions.provider,
-          "Confidence Threshold": mergedOptions.confidenceThreshold,
         }),
       });
 
-      // Take the screenshot
-      cy.wrap(subject, { log: false }).screenshot(
-        path.basename(screenshotName, ".png"),
-        {
-          capture: "viewport",
-          overwrite: true,
-          onAfterScreenshot(el, props) {
-            // Don't use cy.log inside this callback as it creates a promise conflict
-            // Store the path for later use instead
-            capturedScreenshotPath = props.path;
-          },
-        }
-      );
-
-      // Evaluate the screenshot with the LLM
-      return cy.wrap(subject, { log: false }).then(() => {
-        // Log screenshot path here instead of in the callback
-        cy.log(`Screenshot captured at: ${capturedScreenshotPath}`);
-
-        // Use the actual capturedScreenshotPath directly
-        // This should be the actual path where Cypress saved the screenshot
-        const actualScreenshotPath = capturedScreenshotPath;
-
-        cy.log(`Evaluating screenshot with ${mergedOptions.provider}...`);
-
-        // Call the LLM bridge service to evaluate the screenshot
-        return llmBridgeService
-          .evaluateScreenshot(
-            actualScreenshotPath,
-            specification,
+      return captureScreenshot(
+        subject,
+        getCheckName(options.name || "vibe-extract"),
+        mergedOptions
+      )
+        .then((screenshotPath) =>
+          llmBridgeService.extractData(
+            screenshotPath,
+            shape,
             {
-              confidenceThreshold: mergedOptions.confidenceThreshold,
               includeRawResponse: mergedOptions.includeRawResponse,
               maxRetries: mergedOptions.maxRetries,
               modelParameters: mergedOptions.modelParameters,
+              retryPolicy: mergedOptions.retryPolicy,
             },
             mergedOptions.provider
           )
-          .then((result) => {
-            // Check if the result is a pass or fail
-            if (
-              result.verdict === "yes" &&
-              result.confidence >= mergedOptions.confidenceThreshold
-            ) {
-              // If passing, just return the subject to allow chaining
-              cy.log(
-                `✅ Vibe check passed! (confidence: ${result.confidence.toFixed(
-                  2
-                )})`
+        )
+        .then((result) => {
+          if (result.error) {
+            throw new Error(
+              [
+                `❌ Vibe extract failed!`,
+                `Fields: ${fields}`,
+                `Error type: ${result.error.type}`,
+                `Reason: ${result.error.message}`,
+              ].join("\n")
+            );
+          }
+
+          logEvaluationDetails(result);
+          cy.log(`Extracted: ${JSON.stringify(result.data)}`);
+
+          // The parser made the data follow the shape
+          return cy.wrap(
+            result.data as Cypress.VibeExtracted<Cypress.VibeExtractShape>,
+            { log: false }
+          );
+        });
+    }
+  );
+
+  /**
+   * Audit the accessibility of an element, or the page, using LLM
+   */
+  Cypress.Commands.add(
+    "vibeA11y",
+    { prevSubject: ["optional", "element"] },
+    (subject, options = {}) => {
+      const target = subject && subject.length > 0 ? subject : undefined;
+
+      return runVibeA11y(target, options);
+    }
+  );
+
+  /**
+   * Start a multi-step flow check
+   */
+  Cypress.Commands.add("vibeFlow", (name) => {
+    const flow: Cypress.VibeFlow = new VibeFlowBuilder(
+      getCheckName(name || "vibe-flow")
+    );
+    return cy.wrap(flow, { log: false });
+  });
+
+  /**
+   * Check if the whole page matches the visual specification using LLM
+   */
+  Cypress.Commands.add("vibeCheckPage", (specification, options = {}) => {
+    return runVibeCheck(undefined, specification, {
+      capture: "fullPage",
+      ...options,
+    }).then(() => cy.wrap(null, { log: false }));
+  });
+
+  /**
+   * Run the evaluation of should('matchVibe', specification), retrying until it passes
+   */
+  (["should", "and"] as const).forEach((name) => {
+    Cypress.Commands.overwrite<typeof name, "optional">(
+      name,
+      (originalFn, subject, ...args: unknown[]) => {
+        const [chainer, specification, options] = args;
+
+        if (chainer === "not.matchVibe") {
+          throw new Error(
+            "matchVibe cannot be negated, describe what must not be visible in the specification instead"
+          );
+        }
+
+        // Other chainers and callbacks are regular assertions
+        if (chainer !== "matchVibe") {
+          return (originalFn as (...values: unknown[]) => Cypress.Chainable)(
+            subject,
+            ...args
+          );
+        }
+
+        return runVibeMatch(
+          subject as JQuery<HTMLElement>,
+          specification as Cypress.VibeSpecification,
+          (options || {}) as Cypress.VibeMatchOptions
+        );
+      }
+    );
+  });
+}
+
+/** Specification of a comparison when none is given */
+const DEFAULT_COMPARISON_SPECIFICATION =
+  "The current screenshot looks the same as the reference image";
+
+/**
+ * Options accepted by the vibe check commands, merged with the runtime config
+ */
+type VibeCheckOptions = Parameters<Cypress.Chainable["vibeCheck"]>[1] & {};
+
+/**
+ * Options accepted by the vibeExtract command
+ */
+type VibeExtractOptions = Parameters<Cypress.Chainable["vibeExtract"]>[1] & {};
+
+/**
+ * Turn the specification of a check into its text and, for checklists, its criteria
+ * Criteria given as a list are named by their position
+ * @param specification Specification text, list of criteria, or named criteria
+ * @returns Text of the specification, and the criteria of a checklist
+ */
+function toChecklist(specification: Cypress.VibeSpecification): {
+  text: string;
+  criteria?: Criterion[];
+} {
+  if (typeof specification === "string") {
+    return { text: specification };
+  }
+
+  const criteria = Array.isArray(specification)
+    ? specification.map((criterion, index) => ({
+        name: String(index + 1),
+        specification: criterion,
+      }))
+    : Object.entries(specification).map(([name, criterion]) => ({
+        name,
+        specification: criterion,
+      }));
+
+  if (criteria.length === 0) {
+    throw new Error("A checklist specification needs at least one criterion");
+  }
+
+  return {
+    text: criteria
+      .map((criterion) => `${criterion.name}: ${criterion.specification}`)
+      .join("\n"),
+    criteria,
+  };
+}
+
+/**
+ * Merge the options of a check with the runtime configuration
+ * @param options Options of the check
+ * @returns Options with the configured defaults filled in
+ */
+function getMergedOptions(options: VibeCheckOptions) {
+  return {
+    ...runtimeConfig.evaluation,
+    provider: runtimeConfig.defaultProvider,
+    ...options,
+  };
+}
+
+/**
+ * Pick the options sent to the evaluation from the merged options of a check
+ * @param mergedOptions Options of the check, merged with the runtime config
+ * @returns Evaluation options
+ */
+function getEvaluateOptions(
+  mergedOptions: ReturnType<typeof getMergedOptions>
+): EvaluateOptions {
+  return {
+    confidenceThreshold: mergedOptions.confidenceThreshold,
+    includeRawResponse: mergedOptions.includeRawResponse,
+    maxRetries: mergedOptions.maxRetries,
+    modelParameters: mergedOptions.modelParameters,
+    consensus: mergedOptions.consensus,
+    fallbackProviders: mergedOptions.fallbackProviders,
+    retryPolicy: mergedOptions.retryPolicy,
+    cache: mergedOptions.cache,
+  };
+}
+
+/**
+ * Get a name for a check that is the same on every run
+ * Repeated names within a test get a numeric suffix, in order
+ * @param name Name given to the check
+ * @returns Name unique within the test
+ */
+function getCheckName(name: string): string {
+  const count = (checkCounts.get(name) || 0) + 1;
+  checkCounts.set(name, count);
+
+  return count === 1 ? name : `${name}-${count}`;
+}
+
+/**
+ * Take the screenshot of a check
+ * The name is stable across runs, so each run overwrites the previous screenshot
+ * @param subject Element to capture, or undefined for the page
+ * @param name Name of the check, used in the screenshot name
+ * @param options Capture mode and padding
+ * @returns Path where Cypress saved the screenshot
+ */
+function captureScreenshot(
+  subject: JQuery<HTMLElement> | undefined,
+  name: string,
+  options: Pick<VibeCheckOptions, "capture" | "padding">
+): Cypress.Chainable<string> {
+  // Generate a screenshot name
+  const testName = Cypress.currentTest.title.replace(/\s+/g, "-").toLowerCase();
+  const screenshotName = `${testName}-${name}`;
+
+  // Get screenshot directory from Cypress config
+  const screenshotDir =
+    Cypress.config("screenshotsFolder") || "cypress/screenshots";
+
+  // Use the test file name as the directory, rather than llm-tests
+  // This matches where Cypress actually saves the screenshots
+  let capturedScreenshotPath = path.join(
+    screenshotDir,
+    Cypress.spec.name,
+    `${screenshotName}.png`
+  );
+
+  const screenshotOptions: Partial<Cypress.ScreenshotOptions> = {
+    overwrite: true,
+    onAfterScreenshot(el, props) {
+      // Don't use cy.log inside this callback as it creates a promise conflict
+      // Store the path for later use instead
+      capturedScreenshotPath = props.path;
+    },
+  };
+
+  const capture = options.capture || "element";
+
+  if (subject && (capture === "element" || capture === "padded")) {
+    // Element screenshots are cropped to the element, padding adds context around it
+    cy.wrap(subject, { log: false }).screenshot(screenshotName, {
+      ...screenshotOptions,
+      padding: capture === "padded" ? (options.padding ?? 16) : undefined,
+    });
+  } else {
+    cy.screenshot(screenshotName, {
+      ...screenshotOptions,
+      capture: capture === "fullPage" ? "fullPage" : "viewport",
+    });
+  }
+
+  return cy.wrap(null, { log: false }).then(() => {
+    // Log screenshot path here instead of in the callback
+    cy.log(`Screenshot captured at: ${capturedScreenshotPath}`);
+    return capturedScreenshotPath;
+  });
+}
+
+/**
+ * Get the part of the page a screenshot will show
+ * @param subject Element to capture, or undefined for the page
+ * @param options Capture mode and padding of the check
+ * @param win Window of the application under test
+ * @returns Area in viewport coordinates, or undefined for the full page
+ */
+function getCapturedArea(
+  subject: JQuery<HTMLElement> | undefined,
+  options: Pick<VibeCheckOptions, "capture" | "padding">,
+  win: Window
+): CapturedArea | undefined {
+  const capture = options.capture || "element";
+
+  if (subject && (capture === "element" || capture === "padded")) {
+    const rect = subject[0].getBoundingClientRect();
+    const padding = capture === "padded" ? (options.padding ?? 16) : 0;
+
+    return {
+      left: rect.left - padding,
+      top: rect.top - padding,
+      right: rect.right + padding,
+      bottom: rect.bottom + padding,
+    };
+  }
+
+  if (capture === "fullPage") {
+    return undefined;
+  }
+
+  return { left: 0, top: 0, right: win.innerWidth, bottom: win.innerHeight };
+}
+
+/**
+ * Capture, evaluate and assert a vibe check
+ * @param subject Element to check, or undefined for the page
+ * @param specification Specification to evaluate against, or a checklist of criteria
+ * @param options Options of the check
+ * @param referencePath Reference image to compare the screenshot with, if any
+ * @returns The subject, to allow chaining
+ */
+function runVibeCheck(
+  subject: JQuery<HTMLElement> | undefined,
+  specification: Cypress.VibeSpecification,
+  options: VibeCheckOptions,
+  referencePath?: string
+): Cypress.Chainable<JQuery<HTMLElement> | undefined> {
+  if (
+    (options.viewports && options.viewports.length > 0) ||
+    (options.themes && options.themes.length > 0)
+  ) {
+    return runCheckMatrix(subject, specification, options, referencePath);
+  }
+
+  const { text, criteria } = toChecklist(specification);
+
+  // Merge options with runtime config
+  const mergedOptions = getMergedOptions(options);
+  const checkName = getCheckName(options.name || "vibe-check");
+
+  // Comparisons have their own reference, other checks may use a baseline
+  const baseline = mergedOptions.baseline ?? runtimeConfig.baselines.enabled;
+
+  // Log the check
+  Cypress.log({
+    name: referencePath
+      ? "vibeCompare"
+      : subject
+        ? "vibeCheck"
+        : "vibeCheckPage",
+    message: `"${text.substring(0, 40)}${text.length > 40 ? "..." : ""}"`,
+    consoleProps: () => ({
+      Specification: text,
+      Element: subject,
+      Reference: referencePath,
+      Capture: mergedOptions.capture || "element",
+      Provider: mergedOptions.provider,
+      Consensus: mergedOptions.consensus,
+      "Confidence Threshold": mergedOptions.confidenceThreshold,
+    }),
+  });
+
+  // Take the screenshot, then evaluate it with the LLM
+  return captureScreenshot(subject, checkName, mergedOptions).then(
+    (screenshotPath) => {
+      cy.log(
+        `Evaluating screenshot with ${
+          mergedOptions.consensus
+            ? `${mergedOptions.consensus.providers.join(", ")} (${
+                mergedOptions.consensus.strategy || "majority"
+              })`
+            : mergedOptions.provider
+        }...`
+      );
+
+      // Call the LLM bridge service to evaluate the screenshot
+      return requestEvaluation(
+        screenshotPath,
+        text,
+        { ...getEvaluateOptions(mergedOptions), criteria },
+        mergedOptions.provider,
+        { referencePath, baseline, checkName }
+      ).then((result) => {
+        assertResult(
+          referencePath ? "Vibe compare" : "Vibe check",
+          text,
+          result,
+          mergedOptions.confidenceThreshold,
+          screenshotPath,
+          { referencePath, soft: isSoft(mergedOptions) }
+        );
+
+        // Return the subject to allow chaining
+        return cy.wrap(subject, { log: false });
+      });
+    }
+  );
+}
+
+/**
+ * Repeat a vibe check at several viewports and themes, and report the results per variant
+ * Viewports and themes are crossed, every variant is evaluated before failing,
+ * and the viewport and theme are restored afterwards
+ * @param subject Element to check, or undefined for the page
+ * @param specification Specification of the variants without their own
+ * @param options Options of the check, with the viewports and themes
+ * @param referencePath Reference image to compare the screenshots with, if any
+ * @returns The subject, to allow chaining
+ */
+function runCheckMatrix(
+  subject: JQuery<HTMLElement> | undefined,
+  specification: Cypress.VibeSpecification,
+  options: VibeCheckOptions,
+  referencePath?: string
+): Cypress.Chainable<JQuery<HTMLElement> | undefined> {
+  const { viewports = [], themes = [], ...checkOptions } = options;
+  const mergedOptions = getMergedOptions(checkOptions);
+  const checkName = getCheckName(checkOptions.name || "vibe-check");
+  const baseline = mergedOptions.baseline ?? runtimeConfig.baselines.enabled;
+  const kind = referencePath ? "Vibe compare" : "Vibe check";
+  const sizes = viewports.map(toViewportSize);
+  const variants = (sizes.length > 0 ? sizes : [undefined]).flatMap((size) =>
+    (themes.length > 0 ? themes.map(toTheme) : [undefined]).map((theme) => ({
+      name: [size?.name, theme?.name].filter(Boolean).join("-"),
+      size,
+      theme,
+      // The theme's specification is the more specific one
+      specification:
+        theme?.specification ?? size?.specification ?? specification,
+    }))
+  );
+  const results: {
+    name: string;
+    text: string;
+    result: LLMResponse;
+    screenshotPath: string;
+  }[] = [];
+
+  Cypress.log({
+    name: referencePath
+      ? "vibeCompare"
+      : subject
+        ? "vibeCheck"
+        : "vibeCheckPage",
+    message: `${variants.length} variants: ${variants
+      .map((variant) => variant.name)
+      .join(", ")}`,
+    consoleProps: () => ({
+      Specification: specification,
+      Viewports: viewports,
+      Themes: themes,
+      Element: subject,
+      Reference: referencePath,
+      Provider: mergedOptions.provider,
+      "Confidence Threshold": mergedOptions.confidenceThreshold,
+    }),
+  });
+
+  return cy.window({ log: false }).then((window) => {
+    const original = { width: window.innerWidth, height: window.innerHeight };
+
+    for (const variant of variants) {
+      const { text, criteria } = toChecklist(variant.specification);
+      const variantCheckName = `${checkName}-${variant.name}`;
+
+      if (variant.size) {
+        const { size } = variant.size;
+
+        if (typeof size === "string") {
+          cy.viewport(size, undefined, { log: false });
+        } else {
+          cy.viewport(size[0], size[1], { log: false });
+        }
+      }
+
+      if (variant.theme) {
+        applyTheme(variant.theme);
+      }
+
+      captureScreenshot(subject, variantCheckName, mergedOptions).then(
+        (screenshotPath) =>
+          requestEvaluation(
+            screenshotPath,
+            text,
+            { ...getEvaluateOptions(mergedOptions), criteria },
+            mergedOptions.provider,
+            { referencePath, baseline, checkName: variantCheckName }
+          ).then((result) => {
+            logEvaluationDetails(result);
+            cy.log(
+              result.skipped
+                ? `⏭️ ${variant.name}: skipped`
+                : `${
+                    isPassing(result, mergedOptions.confidenceThreshold)
+                      ? "✅"
+                      : "❌"
+                  } ${variant.name}: ${
+                    result.verdict
+                  } (confidence: ${result.confidence.toFixed(2)})`
+            );
+            results.push({
+              name: variant.name,
+              text,
+              result,
+              screenshotPath,
+            });
+          })
+      );
+
+      if (variant.theme) {
+        resetTheme(variant.theme);
+      }
+    }
+
+    if (sizes.length > 0) {
+      cy.viewport(original.width, original.height, { log: false });
+    }
+
+    return cy.wrap(null, { log: false }).then(() => {
+      const failed = results.filter(
+        ({ result }) =>
+          !result.skipped &&
+          !isPassing(result, mergedOptions.confidenceThreshold)
+      );
+
+      if (failed.length === 0) {
+        cy.log(`✅ ${kind} passed in ${results.length} variants`);
+      } else {
+        reportFailure(
+          kind,
+          [
+            `❌ ${kind} failed in ${failed.length} of ${
+              results.length
+            } variants: ${failed.map(({ name }) => name).join(", ")}`,
+            ...failed.map(({ name, text, result, screenshotPath }) =>
+              getFailureMessage(
+                `${kind} at ${name}`,
+                text,
+                result,
+                mergedOptions.confidenceThreshold,
+                screenshotPath,
+                referencePath
+              )
+            ),
+          ].join("\n\n"),
+          isSoft(mergedOptions)
+        );
+      }
+
+      return cy.wrap(subject, { log: false });
+    });
+  });
+}
+
+/**
+ * Name and size of a viewport of a check matrix
+ * @param viewport Preset, [width, height] pair, or either with its own specification
+ * @returns Viewport with a name for screenshots and messages, e.g. "iphone-x" or "1280x800"
+ */
+function toViewportSize(viewport: Cypress.VibeViewport): {
+  name: string;
+  size: Cypress.ViewportPreset | [number, number];
+  specification?: Cypress.VibeSpecification;
+} {
+  const { size, specification } =
+    typeof viewport === "object" && !Array.isArray(viewport)
+      ? viewport
+      : { size: viewport, specification: undefined };
+
+  return {
+    name: typeof size === "string" ? size : `${size[0]}x${size[1]}`,
+    size,
+    specification,
+  };
+}
+
+/**
+ * Turn a theme of a check matrix into its full form
+ * @param theme "light", "dark", or a theme with its hooks
+ * @returns Theme with a name, "light" and "dark" emulate prefers-color-scheme
+ */
+function toTheme(theme: Cypress.VibeTheme): Exclude<Cypress.VibeTheme, string> {
+  return typeof theme === "string"
+    ? { name: theme, colorScheme: theme }
+    : theme;
+}
+
+/**
+ * Switch the application under test to a theme
+ * @param theme Theme to apply
+ */
+function applyTheme(theme: Exclude<Cypress.VibeTheme, string>): void {
+  // Tracked first, so the theme is undone even when applying it fails
+  cy.wrap(null, { log: false }).then(() => {
+    activeTheme = theme;
+  });
+
+  if (theme.colorScheme) {
+    emulateColorScheme(theme.colorScheme);
+  }
+
+  cy.window({ log: false }).then((window) => {
+    if (theme.htmlClass) {
+      window.document.documentElement.classList.add(
+        ...theme.htmlClass.split(/\s+/)
+      );
+    }
+
+    return theme.apply?.(window);
+  });
+}
+
+/**
+ * Undo a theme applied with applyTheme
+ * The emulated color scheme is reset first, it outlives the page
+ * @param theme Theme to undo
+ */
+function resetTheme(theme: Exclude<Cypress.VibeTheme, string>): void {
+  if (theme.colorScheme) {
+    emulateColorScheme(undefined);
+  }
+
+  cy.window({ log: false }).then((window) => {
+    activeTheme = undefined;
+
+    if (theme.htmlClass) {
+      window.document.documentElement.classList.remove(
+        ...theme.htmlClass.split(/\s+/)
+      );
+    }
+
+    return theme.reset?.(window);
+  });
+}
+
+/**
+ * Emulate the prefers-color-scheme media feature, through the Chrome DevTools Protocol
+ * @param colorScheme Color scheme to emulate, undefined to stop emulating
+ * @throws Error in browsers that are not based on Chromium
+ */
+function emulateColorScheme(colorScheme: "light" | "dark" | undefined): void {
+  cy.wrap(null, { log: false }).then(() => {
+    if (!Cypress.isBrowser({ family: "chromium" })) {
+      throw new Error(
+        `Emulating prefers-color-scheme needs a Chromium based browser, not ${Cypress.browser.name}. Use a theme with htmlClass or apply instead`
+      );
+    }
+
+    return Cypress.automation("remote:debugger:protocol", {
+      command: "Emulation.setEmulatedMedia",
+      params: {
+        features: [{ name: "prefers-color-scheme", value: colorScheme || "" }],
+      },
+    });
+  });
+}
+
+/** Rubric of vibeA11y, the specification of each rule */
+const A11Y_RULES: Record<Cypress.VibeA11yRule, string> = {
+  contrast:
+    "Text has enough contrast with its background: at least 4.5:1, or 3:1 for large text (24px, or 18.5px bold)",
+  legibility:
+    "Text is legible at its current size: nothing smaller than 12px, and no clipped, overlapping or cut off text",
+  "focus-indicators":
+    "Interactive elements show a clearly visible focus indicator, such as an outline or ring, when focused",
+  "touch-targets":
+    "Interactive elements are at least 24 by 24 CSS pixels, with enough space between neighbouring targets",
+  "color-only":
+    "Color is not the only signal: states, errors, links and data series are also told apart by text, icons, underlines or patterns",
+};
+
+/**
+ * Capture and audit the accessibility of an element or the page
+ * @param subject Element to audit, or undefined for the page
+ * @param options Rules to audit, and the options of the check
+ * @returns The finding of each rule
+ */
+function runVibeA11y(
+  subject: JQuery<HTMLElement> | undefined,
+  options: Parameters<Cypress.Chainable["vibeA11y"]>[0] & {}
+): Cypress.Chainable<Cypress.VibeA11yFinding[]> {
+  const {
+    rules = Object.keys(A11Y_RULES) as Cypress.VibeA11yRule[],
+    ...checkOptions
+  } = options;
+  const mergedOptions = getMergedOptions({
+    capture: subject ? "element" : "viewport",
+    ...checkOptions,
+  });
+  const checkName = getCheckName(checkOptions.name || "vibe-a11y");
+  const { text, criteria = [] } = toChecklist(
+    Object.fromEntries(rules.map((rule) => [rule, A11Y_RULES[rule]]))
+  );
+
+  Cypress.log({
+    name: "vibeA11y",
+    message: rules.join(", "),
+    consoleProps: () => ({
+      Rules: rules,
+      Element: subject,
+      Provider: mergedOptions.provider,
+      Consensus: mergedOptions.consensus,
+      "Confidence Threshold": mergedOptions.confidenceThreshold,
+    }),
+  });
+
+  // The facts are measured on the UI that is captured right after
+  const facts = subject
+    ? cy.wrap(
+        collectA11yFacts(
+          subject[0],
+          getCapturedArea(
+            subject,
+            mergedOptions,
+            subject[0].ownerDocument.defaultView || window
+          )
+        ),
+        { log: false }
+      )
+    : cy
+        .document({ log: false })
+        .then((document) =>
+          collectA11yFacts(
+            document.body,
+            getCapturedArea(
+              undefined,
+              mergedOptions,
+              document.defaultView || window
+            )
+          )
+        );
+
+  return facts.then((a11yFacts) =>
+    captureScreenshot(subject, checkName, mergedOptions).then(
+      (screenshotPath) =>
+        requestEvaluation(
+          screenshotPath,
+          text,
+          { ...getEvaluateOptions(mergedOptions), criteria, a11yFacts },
+          mergedOptions.provider,
+          { checkName }
+        ).then((result) => {
+          assertResult(
+            "Vibe a11y audit",
+            text,
+            result,
+            mergedOptions.confidenceThreshold,
+            screenshotPath,
+            { soft: isSoft(mergedOptions) }
+          );
+
+          const findings = (result.criteria || []).map(
+            (criterion): Cypress.VibeA11yFinding => ({
+              rule: criterion.name as Cypress.VibeA11yRule,
+              passed: isPassing(criterion, mergedOptions.confidenceThreshold),
+              confidence: criterion.confidence,
+              reasoning: criterion.reasoning,
+              issue: criterion.failReason,
+              elements: criterion.elements || [],
+            })
+          );
+
+          return cy.wrap(findings, { log: false });
+        })
+    )
+  );
+}
+
+/** Minimum time between two evaluations of matchVibe when none is given */
+const DEFAULT_MATCH_INTERVAL_MS = 1000;
+
+/** Evaluations of matchVibe before giving up when no cap is given */
+const DEFAULT_MATCH_MAX_ATTEMPTS = 5;
+
+/**
+ * Capture and evaluate an element until it matches, for the matchVibe assertion
+ * Every attempt queries the element again and takes a new screenshot, so UI
+ * that is still animating or loading gets time to settle
+ * @param subject Element to check
+ * @param specification Specification to evaluate against, or a checklist of criteria
+ * @param options Options of the check, and how it retries
+ * @returns The subject, to allow chaining
+ */
+function runVibeMatch(
+  subject: JQuery<HTMLElement>,
+  specification: Cypress.VibeSpecification,
+  options: Cypress.VibeMatchOptions
+): Cypress.Chainable<JQuery<HTMLElement>> {
+  if (!subject || subject.length === 0) {
+    throw new Error("No element found for matchVibe");
+  }
+
+  const { text, criteria } = toChecklist(specification);
+
+  const {
+    timeout,
+    interval = DEFAULT_MATCH_INTERVAL_MS,
+    maxAttempts = DEFAULT_MATCH_MAX_ATTEMPTS,
+    selector = getSelector(subject),
+    ...checkOptions
+  } = options;
+  const mergedOptions = getMergedOptions(checkOptions);
+  const evaluateOptions = { ...getEvaluateOptions(mergedOptions), criteria };
+  const checkName = getCheckName(checkOptions.name || "match-vibe");
+  const startedAt = Date.now();
+
+  /**
+   * Find the element of an attempt
+   * UI that is still loading often replaces the element, so query it again
+   * @param attemptNumber Number of the attempt, starting at 1
+   * @returns The current element
+   */
+  const findSubject = (
+    attemptNumber: number
+  ): Cypress.Chainable<JQuery<HTMLElement>> => {
+    if (attemptNumber === 1 || !selector) {
+      return cy.wrap(subject, { log: false });
+    }
+
+    return cy.get<HTMLElement>(selector, { log: false });
+  };
+
+  const attempt = (
+    attemptNumber: number,
+    timeoutMs: number
+  ): Cypress.Chainable<JQuery<HTMLElement>> => {
+    const attemptStartedAt = Date.now();
+
+    return findSubject(attemptNumber).then((current) => {
+      if (current.length === 0 || Cypress.dom.isDetached(current)) {
+        throw new Error(
+          `The element of matchVibe is no longer in the page after ${
+            attemptNumber - 1
+          } attempts, pass the selector option to query it again`
+        );
+      }
+
+      return captureScreenshot(current, checkName, mergedOptions).then(
+        (screenshotPath) =>
+          requestEvaluation(
+            screenshotPath,
+            text,
+            evaluateOptions,
+            mergedOptions.provider,
+            { checkName }
+          ).then((result) => {
+            // Skips and provider errors are final, the provider already retried errors
+            const settled =
+              result.skipped ||
+              result.error ||
+              isPassing(result, mergedOptions.confidenceThreshold);
+
+            if (!settled) {
+              const elapsedMs = Date.now() - startedAt;
+              const waitMs = Math.max(
+                0,
+                interval - (Date.now() - attemptStartedAt)
               );
-              return cy.wrap(subject);
-            } else {
-              // If failing, throw an error with the reasoning
-              const failureMessage = [
-                `❌ Vibe check failed!`,
-                `Specification: "${specification}"`,
-                `Confidence: ${result.confidence.toFixed(2)} (threshold: ${
-                  mergedOptions.confidenceThreshold
-                })`,
-                `Reasoning: ${result.reasoning || "No reasoning provided"}`,
-                result.failReason ? `Fail reason: ${result.failReason}` : "",
-                result.suggestions && result.suggestions.length > 0
-                  ? `Suggestions: ${result.suggestions.join(", ")}`
-                  : "",
-                `Screenshot path: ${actualScreenshotPath}`,
-              ]
-                .filter(Boolean)
-                .join("\n");
-
-              throw new Error(failureMessage);
+
+              if (
+                attemptNumber < maxAttempts &&
+                elapsedMs + waitMs < timeoutMs
+              ) {
+                cy.log(
+                  `Attempt ${attemptNumber} did not match (${
+                    result.verdict
+                  }, confidence: ${result.confidence.toFixed(2)}), retrying...`
+                );
+
+                return cy
+                  .wait(waitMs, { log: false })
+                  .then(() => attempt(attemptNumber + 1, timeoutMs));
+              }
+
+              logEvaluationDetails(result);
+              reportFailure(
+                "Vibe match",
+                [
+                  getFailureMessage(
+                    "Vibe match",
+                    text,
+                    result,
+                    mergedOptions.confidenceThreshold,
+                    screenshotPath
+                  ),
+                  `Attempts: ${attemptNumber} in ${elapsedMs}ms`,
+                ].join("\n"),
+                isSoft(mergedOptions)
+              );
+              return cy.wrap(current, { log: false });
             }
-          });
+
+            assertResult(
+              "Vibe match",
+              text,
+              result,
+              mergedOptions.confidenceThreshold,
+              screenshotPath,
+              { soft: isSoft(mergedOptions) }
+            );
+
+            return cy.wrap(current, { log: false });
+          })
+      );
+    });
+  };
+
+  // Without a timeout, retry for as long as a single evaluation may take
+  const timeoutMs =
+    timeout === undefined
+      ? llmBridgeService.getTaskTimeout(evaluateOptions, mergedOptions.provider)
+      : cy.wrap(timeout, { log: false });
+
+  return timeoutMs.then((resolvedTimeout) => {
+    Cypress.log({
+      name: "matchVibe",
+      message: `"${text.substring(0, 40)}${text.length > 40 ? "..." : ""}"`,
+      consoleProps: () => ({
+        Specification: text,
+        Element: subject,
+        Selector: selector,
+        Provider: mergedOptions.provider,
+        "Confidence Threshold": mergedOptions.confidenceThreshold,
+        Timeout: resolvedTimeout,
+        Interval: interval,
+        "Max Attempts": maxAttempts,
+      }),
+    });
+
+    return attempt(1, resolvedTimeout);
+  });
+}
+
+/**
+ * Get the selector an element was found with
+ * cy.get keeps the selector on the elements it yields
+ * @param subject Element the assertion was made on
+ * @returns The selector, or undefined for elements found otherwise
+ */
+function getSelector(subject: JQuery<HTMLElement>): string | undefined {
+  const { selector } = subject as JQuery<HTMLElement> & { selector?: string };
+
+  return typeof selector === "string" && selector ? selector : undefined;
+}
+
+/**
+ * Builder of a multi-step flow check
+ * Each method queues Cypress commands, so steps interleave with the test's own commands
+ */
+class VibeFlowBuilder implements Cypress.VibeFlow {
+  /** Name of the flow, unique within the test */
+  private name: string;
+
+  /** Number of steps queued so far */
+  private stepCount = 0;
+
+  /** Steps captured so far, filled in as the queued commands run */
+  private steps: FlowStep[] = [];
+
+  /**
+   * Creates a new flow builder
+   * @param name Name of the flow, unique within the test
+   */
+  constructor(name: string) {
+    this.name = name;
+  }
+
+  /**
+   * Capture a labeled screenshot of the current step of the flow
+   * @param label What happened at this step
+   * @param options Element to capture and capture mode
+   * @returns The builder, to add more steps
+   */
+  step(
+    label: string,
+    options: Parameters<Cypress.VibeFlow["step"]>[1] = {}
+  ): Cypress.VibeFlow {
+    const screenshotName = `${this.name}-step-${++this.stepCount}`;
+
+    Cypress.log({
+      name: "vibeFlow",
+      message: `${this.name} step ${this.stepCount}: ${label}`,
+    });
+
+    const screenshot = options.selector
+      ? cy
+          .get(options.selector, { log: false })
+          .then(($element) =>
+            captureScreenshot($element, screenshotName, options)
+          )
+      : captureScreenshot(undefined, screenshotName, {
+          ...options,
+          capture: options.capture || "viewport",
+        });
+
+    screenshot.then((screenshotPath) => {
+      this.steps.push({ label, path: screenshotPath });
+    });
+
+    return this;
+  }
+
+  /**
+   * Evaluate the captured steps together against one specification
+   * @param specification Text specification of the whole flow
+   * @param options Options of the check
+   * @returns The builder
+   */
+  check(
+    specification: string,
+    options: Parameters<Cypress.VibeFlow["check"]>[1] = {}
+  ): Cypress.VibeFlow {
+    const mergedOptions = getMergedOptions(options);
+
+    cy.wrap(null, { log: false })
+      .then(() => {
+        Cypress.log({
+          name: "vibeFlow",
+          message: `${this.name}: "${specification.substring(0, 40)}${
+            specification.length > 40 ? "..." : ""
+          }"`,
+          consoleProps: () => ({
+            Specification: specification,
+            Steps: this.steps,
+            Provider: mergedOptions.provider,
+            Consensus: mergedOptions.consensus,
+            "Confidence Threshold": mergedOptions.confidenceThreshold,
+          }),
+        });
+
+        return llmBridgeService.evaluateFlow(
+          [...this.steps],
+          specification,
+          getEvaluateOptions(mergedOptions),
+          mergedOptions.provider
+        );
+      })
+      .then((result) => {
+        const failedStep = this.steps.find(
+          (step) => step.label === result.failedStep
+        );
+
+        assertResult(
+          "Vibe flow",
+          specification,
+          result,
+          mergedOptions.confidenceThreshold,
+          (failedStep || this.steps[this.steps.length - 1])?.path || "",
+          { soft: isSoft(mergedOptions) }
+        );
       });
-    }
+
+    return this;
+  }
+}
+
+/**
+ * Ask the LLM bridge service for the evaluation of a check
+ * @param screenshotPath Path of the screenshot
+ * @param specification Specification to evaluate against
+ * @param evaluateOptions Evaluation options
+ * @param provider Name of the provider
+ * @param target Reference image to compare with, or the baseline of the check
+ * @returns The evaluation
+ */
+function requestEvaluation(
+  screenshotPath: string,
+  specification: string,
+  evaluateOptions: EvaluateOptions,
+  provider: string,
+  target: {
+    referencePath?: string;
+    baseline?: boolean | string;
+    checkName: string;
+  }
+): Cypress.Chainable<LLMResponse> {
+  if (target.referencePath) {
+    return llmBridgeService.compareScreenshot(
+      screenshotPath,
+      target.referencePath,
+      specification,
+      evaluateOptions,
+      provider
+    );
+  }
+
+  if (target.baseline) {
+    return llmBridgeService.evaluateScreenshotWithBaseline(
+      screenshotPath,
+      specification,
+      {
+        test: Cypress.currentTest.titlePath,
+        check: target.checkName,
+        tolerance:
+          typeof target.baseline === "string"
+            ? target.baseline
+            : DEFAULT_COMPARISON_SPECIFICATION,
+      },
+      evaluateOptions,
+      provider
+    );
+  }
+
+  return llmBridgeService.evaluateScreenshot(
+    screenshotPath,
+    specification,
+    evaluateOptions,
+    provider
   );
 }
+
+/**
+ * Log the result of a check, and fail the test if it did not pass
+ * @param kind Kind of check, used in the messages, e.g. "Vibe check"
+ * @param specification Specification the check evaluated
+ * @param result Result of the evaluation
+ * @param confidenceThreshold Confidence needed to pass
+ * @param screenshotPath Path of the evaluated screenshot
+ * @param target Reference image of comparisons, and whether the check is soft
+ * @throws Error with the failure message if the check failed and is not soft
+ */
+function assertResult(
+  kind: string,
+  specification: string,
+  result: LLMResponse,
+  confidenceThreshold: number,
+  screenshotPath: string,
+  target: { referencePath?: string; soft?: boolean } = {}
+): void {
+  // A skipped check (e.g. budget used up) neither passes nor fails the test
+  if (result.skipped) {
+    cy.log(`⏭️ ${kind} skipped: ${result.reasoning}`);
+    return;
+  }
+
+  logEvaluationDetails(result);
+
+  // Check if the result is a pass or fail
+  if (isPassing(result, confidenceThreshold)) {
+    cy.log(`✅ ${kind} passed! (confidence: ${result.confidence.toFixed(2)})`);
+    return;
+  }
+
+  // If failing, report the reasoning
+  reportFailure(
+    kind,
+    getFailureMessage(
+      kind,
+      specification,
+      result,
+      confidenceThreshold,
+      screenshotPath,
+      target.referencePath
+    ),
+    !!target.soft
+  );
+}
+
+/**
+ * Whether failing checks with these options are soft
+ * @param mergedOptions Options of the check, merged with the runtime config
+ * @returns True if failures are reported at the end of the test
+ */
+function isSoft(mergedOptions: ReturnType<typeof getMergedOptions>): boolean {
+  return mergedOptions.soft ?? mergedOptions.mode === "soft";
+}
+
+/**
+ * Fail the test, or keep the failure of a soft check for the end of the test
+ * @param kind Kind of check, e.g. "Vibe check"
+ * @param message Failure message
+ * @param soft Whether the check is soft
+ * @throws Error with the failure message if the check is not soft
+ */
+function reportFailure(kind: string, message: string, soft: boolean): void {
+  if (!soft) {
+    throw new Error(message);
+  }
+
+  softFailures.push(message);
+  Cypress.log({
+    name: "vibeSoftFailure",
+    message: `⚠️ ${kind} failed, reported at the end of the test`,
+    consoleProps: () => ({ Failure: message }),
+  });
+  cy.log(message);
+}
+
+/**
+ * Whether an evaluation, or a criterion of it, passes
+ * @param result Result of the evaluation or criterion
+ * @param confidenceThreshold Confidence needed to pass
+ * @returns True if the verdict is "yes" with enough confidence
+ */
+function isPassing(
+  result: Pick<LLMResponse, "verdict" | "confidence">,
+  confidenceThreshold: number
+): boolean {
+  return result.verdict === "yes" && result.confidence >= confidenceThreshold;
+}
+
+/**
+ * Log how an evaluation was answered: providers, fallbacks, cache, queue and usage
+ * @param result Result of the evaluation
+ */
+function logEvaluationDetails(result: Partial<LLMResponse>): void {
+  // Log each provider's verdict when several providers were asked
+  (result.providerResults || []).forEach((providerResult) => {
+    cy.log(
+      providerResult.response
+        ? `[${providerResult.provider}] ${
+            providerResult.response.verdict
+          } (confidence: ${providerResult.response.confidence.toFixed(2)})`
+        : `[${providerResult.provider}] failed: ${providerResult.error}`
+    );
+  });
+
+  // Note when a fallback provider had to answer
+  if (result.failedProviders && result.failedProviders.length > 0) {
+    cy.log(
+      `⚠️ Answered by fallback provider ${
+        result.provider
+      } after ${result.failedProviders
+        .map((failed) => failed.provider)
+        .join(", ")} failed`
+    );
+  }
+
+  if (result.baseline) {
+    cy.log(
+      {
+        recorded: `📸 Recorded a new baseline at ${result.baseline.path}`,
+        updated: `📸 Updated the baseline at ${result.baseline.path}`,
+        unchanged: "Identical to the baseline, using its accepted verdict",
+        compared: `Compared with the baseline at ${result.baseline.path}`,
+        outdated: `The baseline at ${result.baseline.path} was accepted for another specification`,
+      }[result.baseline.status]
+    );
+  }
+
+  if (result.cacheStatus) {
+    cy.log(
+      result.cacheStatus === "hit"
+        ? "⚡ Vibe cache hit, using the cached evaluation"
+        : "Vibe cache miss"
+    );
+  }
+
+  if (result.queueWaitMs) {
+    cy.log(`Waited ${result.queueWaitMs}ms in the provider queue`);
+  }
+
+  // Log what the evaluation cost
+  if (result.usage && result.cacheStatus !== "hit") {
+    cy.log(
+      `Usage: ${result.usage.inputTokens} input / ${
+        result.usage.outputTokens
+      } output tokens${
+        result.usage.estimatedCost !== undefined
+          ? `, ~$${result.usage.estimatedCost.toFixed(4)}`
+          : ""
+      }, ${result.usage.latencyMs}ms`
+    );
+  }
+}
+
+/**
+ * List the criteria of a checklist that did not pass
+ * @param result Result of the evaluation
+ * @param confidenceThreshold Confidence needed to pass
+ * @returns Lines of the failed criteria, or an empty string if not a checklist
+ */
+function getFailedCriteria(
+  result: LLMResponse,
+  confidenceThreshold: number
+): string {
+  const failed = (result.criteria || []).filter(
+    (criterion) => !isPassing(criterion, confidenceThreshold)
+  );
+
+  if (failed.length === 0) {
+    return "";
+  }
+
+  return [
+    `Failed criteria (${failed.length}/${result.criteria?.length}):`,
+    ...failed.map(
+      (criterion) =>
+        `  - ${criterion.name}: "${criterion.specification}" (${
+          criterion.verdict
+        }, confidence: ${criterion.confidence.toFixed(2)})${
+          criterion.failReason ? ` ${criterion.failReason}` : ""
+        }${criterion.elements ? ` (on ${criterion.elements.join(", ")})` : ""}`
+    ),
+  ].join("\n");
+}
+
+/**
+ * Build the error message of a failed check
+ * @param kind Kind of check, e.g. "Vibe check"
+ * @param specification Specification the check evaluated
+ * @param result Result of the evaluation
+ * @param confidenceThreshold Confidence needed to pass
+ * @param screenshotPath Path of the evaluated screenshot
+ * @param referencePath Path of the reference image, for comparisons
+ * @returns Failure message
+ */
+function getFailureMessage(
+  kind: string,
+  specification: string,
+  result: LLMResponse,
+  confidenceThreshold: number,
+  screenshotPath: string,
+  referencePath?: string
+): string {
+  return [
+    `❌ ${kind} failed!`,
+    `Specification: "${specification}"`,
+    `Confidence: ${result.confidence.toFixed(
+      2
+    )} (threshold: ${confidenceThreshold})`,
+    result.provider ? `Provider: ${result.provider}` : "",
+    result.failedStep ? `Failed step: "${result.failedStep}"` : "",
+    getFailedCriteria(result, confidenceThreshold),
+    `Reasoning: ${result.reasoning || "No reasoning provided"}`,
+    result.failReason ? `Fail reason: ${result.failReason}` : "",
+    result.error
+      ? `Error type: ${result.error.type}${
+          result.error.status ? ` (HTTP ${result.error.status})` : ""
+        }${
+          result.error.attempts
+            ? `, gave up after ${result.error.attempts} attempt${
+                result.error.attempts === 1 ? "" : "s"
+              }`
+            : ""
+        }`
+      : "",
+    result.suggestions && result.suggestions.length > 0
+      ? `Suggestions: ${result.suggestions.join(", ")}`
+      : "",
+    `Screenshot path: ${screenshotPath}`,
+    referencePath ? `Reference path: ${referencePath}` : "",
+    result.baseline ? `Baseline path: ${result.baseline.path}` : "",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
@@ -3,6 +3,281 @@
 // We're declaring a module augmentation for Cypress
 declare global {
   namespace Cypress {
+    /**
+     * Registry of provider names accepted by the vibe check commands
+     * Augment it to use providers registered with setupCypressVibeCheck or vibe.providers
+     * @example declare global { namespace Cypress { interface VibeProviders { ours: true } } }
+     */
+    interface VibeProviders {
+      openai: true;
+      anthropic: true;
+      azure: true;
+      "openai-compatible": true;
+      gemini: true;
+      local: true;
+      mock: true;
+    }
+
+    /** Name of a registered vibe check provider */
+    type VibeProviderName = Extract<keyof VibeProviders, string>;
+
+    /**
+     * Evaluate with several providers and combine their verdicts
+     */
+    interface VibeConsensusOptions {
+      /** Providers to ask */
+      providers: VibeProviderName[];
+
+      /**
+       * How to combine the verdicts, default is "majority"
+       * - "majority": the verdict most providers agree on, ties fail
+       * - "all": passes only if every provider passes
+       * - "mean-confidence": averages the providers' confidence that the UI passes
+       */
+      strategy?: "majority" | "all" | "mean-confidence";
+    }
+
+    /**
+     * How failed provider requests are retried
+     */
+    interface VibeRetryPolicy {
+      /** Delay before the first retry in milliseconds, doubled on each retry. Default is 1000 */
+      baseDelayMs?: number;
+
+      /** Upper bound of a single delay in milliseconds. Default is 30000 */
+      maxDelayMs?: number;
+
+      /** Fraction of each delay that is randomized, from 0 to 1. Default is 0.5 */
+      jitter?: number;
+
+      /** Stop retrying once the total wait would exceed this, in milliseconds. Default is 60000 */
+      maxTotalWaitMs?: number;
+
+      /** Wait as long as the provider asks with Retry-After, up to maxDelayMs. Default is true */
+      respectRetryAfter?: boolean;
+
+      /** Which failure classes are retried, all but "auth" and "invalid-request" by default */
+      retryOn?: Partial<
+        Record<
+          | "auth"
+          | "rate-limit"
+          | "server"
+          | "timeout"
+          | "network"
+          | "invalid-request"
+          | "malformed-response"
+          | "unknown",
+          boolean
+        >
+      >;
+    }
+
+    /**
+     * Specification of a vibe check: a text, or a checklist of criteria that
+     * each get their own verdict, as a list or by name
+     * @example ['The logo is on the left', 'The search field is centered']
+     * @example { logo: 'The logo is on the left', search: 'The search field is centered' }
+     */
+    type VibeSpecification = string | string[] | Record<string, string>;
+
+    /**
+     * What the screenshot of a vibe check shows
+     * - "element": the element only (default)
+     * - "padded": the element plus `padding` pixels of surrounding context
+     * - "viewport": the visible part of the page
+     * - "fullPage": the whole page, scrolled and stitched together
+     */
+    type VibeCaptureMode = "element" | "padded" | "viewport" | "fullPage";
+
+    /**
+     * Builder of a multi-step flow check, yielded by cy.vibeFlow()
+     */
+    interface VibeFlow {
+      /**
+       * Capture a labeled screenshot of the current step of the flow
+       * @param label What happened at this step, e.g. "After clicking Save"
+       * @param options Element to capture and capture mode, the viewport by default
+       */
+      step(
+        label: string,
+        options?: {
+          selector?: string;
+          capture?: VibeCaptureMode;
+          padding?: number;
+        }
+      ): VibeFlow;
+
+      /**
+       * Evaluate the captured steps together, in order, against one specification
+       * The failure message names the step that broke the expectation
+       * @param specification Text specification of the whole flow
+       * @param options Optional configuration for this specific check
+       */
+      check(
+        specification: string,
+        options?: Omit<
+          Parameters<Chainable["vibeCheck"]>[1] & {},
+          "capture" | "padding" | "baseline" | "viewports" | "themes"
+        >
+      ): VibeFlow;
+    }
+
+    /** Type of a field read by vibeExtract, scalars are null when not visible */
+    type VibeExtractFieldType =
+      "string" | "number" | "boolean" | "string[]" | "number[]" | "boolean[]";
+
+    /**
+     * Fields read by vibeExtract, by name, nested shapes for grouped fields
+     */
+    interface VibeExtractShape {
+      [field: string]: VibeExtractFieldType | VibeExtractShape;
+    }
+
+    /**
+     * Data yielded by vibeExtract for a shape
+     */
+    type VibeExtracted<Shape extends VibeExtractShape> = {
+      [Field in keyof Shape]: Shape[Field] extends "string"
+        ? string | null
+        : Shape[Field] extends "number"
+          ? number | null
+          : Shape[Field] extends "boolean"
+            ? boolean | null
+            : Shape[Field] extends "string[]"
+              ? string[]
+              : Shape[Field] extends "number[]"
+                ? number[]
+                : Shape[Field] extends "boolean[]"
+                  ? boolean[]
+                  : Shape[Field] extends VibeExtractShape
+                    ? VibeExtracted<Shape[Field]>
+                    : never;
+    };
+
+    /**
+     * A viewport a vibe check is repeated at: a Cypress preset, a
+     * [width, height] pair, or either with its own specification
+     * @example 'iphone-x'
+     * @example { size: [1280, 800], specification: 'The navigation is a sidebar' }
+     */
+    type VibeViewport =
+      | ViewportPreset
+      | [number, number]
+      | {
+          size: ViewportPreset | [number, number];
+          specification?: VibeSpecification;
+        };
+
+    /**
+     * A theme a vibe check is repeated in
+     * "light" and "dark" emulate prefers-color-scheme, which needs a Chromium
+     * based browser. App-defined themes add a class to <html>, or run a callback
+     * @example 'dark'
+     * @example { name: 'high-contrast', htmlClass: 'theme-hc', specification: 'Black text on a white background' }
+     */
+    type VibeTheme =
+      | "light"
+      | "dark"
+      | {
+          /** Name of the theme, used in screenshot names and messages */
+          name: string;
+
+          /** prefers-color-scheme to emulate */
+          colorScheme?: "light" | "dark";
+
+          /** Classes added to <html> for the check, and removed afterwards */
+          htmlClass?: string;
+
+          /** Switch the application to the theme, may queue Cypress commands */
+          apply?: (window: AUTWindow) => void;
+
+          /** Undo apply, may queue Cypress commands */
+          reset?: (window: AUTWindow) => void;
+
+          /** Specification in this theme, instead of the one of the check */
+          specification?: VibeSpecification;
+        };
+
+    /**
+     * Rules of the accessibility rubric of vibeA11y
+     * - "contrast": text has enough contrast with its background
+     * - "legibility": text is legible at its current size
+     * - "focus-indicators": interactive elements show where the focus is
+     * - "touch-targets": interactive elements are large enough to hit
+     * - "color-only": color is not the only signal of a state or meaning
+     */
+    type VibeA11yRule =
+      | "contrast"
+      | "legibility"
+      | "focus-indicators"
+      | "touch-targets"
+      | "color-only";
+
+    /**
+     * Finding of vibeA11y on one rule of the rubric
+     */
+    interface VibeA11yFinding {
+      /** Rule of the rubric */
+      rule: VibeA11yRule;
+
+      /** Whether the UI passes the rule with enough confidence */
+      passed: boolean;
+
+      /** Confidence of the verdict, from 0.0 to 1.0 */
+      confidence: number;
+
+      /** Reasoning behind the verdict */
+      reasoning?: string;
+
+      /** The problem found, when the rule failed */
+      issue?: string;
+
+      /** Elements breaking the rule */
+      elements: string[];
+    }
+
+    /**
+     * Options of the matchVibe assertion, the vibe check options plus how it retries
+     */
+    type VibeMatchOptions = Omit<
+      Parameters<Chainable["vibeCheck"]>[1] & {},
+      "baseline" | "viewports" | "themes"
+    > & {
+      /**
+       * Give up after this many milliseconds, default is the timeout of the
+       * evaluation task, as long as one evaluation may take
+       */
+      timeout?: number;
+
+      /** Minimum time between two evaluations in milliseconds, default is 1000 */
+      interval?: number;
+
+      /** Give up after this many evaluations, default is 5 */
+      maxAttempts?: number;
+
+      /**
+       * Selector to query the element again with before every attempt,
+       * default is the selector of the cy.get the element came from
+       */
+      selector?: string;
+    };
+
+    interface Chainer<Subject> {
+      /**
+       * Capture and evaluate the element until it matches the visual
+       * specification, or the timeout or attempt cap is reached
+       * Useful for UI that is still animating or loading
+       * @param specification Text specification, or checklist of criteria, to evaluate the element against
+       * @param options Optional configuration, with how the assertion retries
+       * @example cy.get('.toast').should('matchVibe', 'A green toast saying "Saved"')
+       */
+      (
+        chainer: "matchVibe",
+        specification: VibeSpecification,
+        options?: VibeMatchOptions
+      ): Chainable<Subject>;
+    }
+
     interface Chainable<Subject = any> {
       /**
        * Configure global settings for vibe checks
@@ -10,30 +285,131 @@ declare global {
        * @example cy.configureVibes({ provider: 'anthropic', confidenceThreshold: 0.75 })
        */
       configureVibes(options: {
-        provider?: "openai" | "anthropic";
+        provider?: VibeProviderName;
         confidenceThreshold?: number;
         includeRawResponse?: boolean;
         maxRetries?: number;
         modelParameters?: Record<string, any>;
+        consensus?: VibeConsensusOptions;
+        fallbackProviders?: VibeProviderName[];
+        retryPolicy?: VibeRetryPolicy;
+        cache?: boolean | "refresh";
+        baseline?: boolean | string;
+        mode?: "strict" | "soft";
       }): Chainable<null>;
 
       /**
        * Check if an element matches the visual specification using LLM
-       * @param specification Text specification to evaluate the element against
+       * @param specification Text specification, or checklist of criteria, to evaluate the element against
        * @param options Optional configuration for this specific check
        * @example cy.get('.button').vibeCheck('A prominent blue button with white text saying "Submit"')
        */
       vibeCheck(
-        specification: string,
+        specification: VibeSpecification,
         options?: {
           name?: string;
-          provider?: "openai" | "anthropic";
+          provider?: VibeProviderName;
           confidenceThreshold?: number;
           includeRawResponse?: boolean;
           maxRetries?: number;
           modelParameters?: Record<string, any>;
+          consensus?: VibeConsensusOptions;
+          fallbackProviders?: VibeProviderName[];
+          retryPolicy?: VibeRetryPolicy;
+          cache?: boolean | "refresh";
+          capture?: VibeCaptureMode;
+          padding?: number;
+          baseline?: boolean | string;
+          soft?: boolean;
+          viewports?: VibeViewport[];
+          themes?: VibeTheme[];
         }
       ): Chainable<Subject>;
+
+      /**
+       * Compare the element with a reference image using LLM, such as an
+       * earlier approved screenshot or a design export checked into the repo
+       * @param referencePath Path of the reference PNG, relative to the project root
+       * @param specification How the element must compare to the reference, e.g.
+       * "ignore text content, colors must match". Default is that they look the same
+       * @param options Optional configuration for this specific check
+       * @example cy.get('.card').vibeCompare('cypress/references/card.png', 'Ignore the text, the colors must match')
+       */
+      vibeCompare(
+        referencePath: string,
+        specification?: string,
+        options?: Parameters<Chainable["vibeCheck"]>[1]
+      ): Chainable<Subject>;
+
+      /**
+       * Read structured data off the element using LLM, for normal assertions
+       * @param shape Fields to read and their types
+       * @param options Optional configuration for this specific extraction
+       * @example cy.get('.chart').vibeExtract({ legendItems: 'string[]', highestBar: 'string' })
+       *   .its('legendItems').should('have.length', 3)
+       */
+      vibeExtract<Shape extends VibeExtractShape>(
+        shape: Shape,
+        options?: Pick<
+          Parameters<Chainable["vibeCheck"]>[1] & {},
+          | "name"
+          | "provider"
+          | "includeRawResponse"
+          | "maxRetries"
+          | "modelParameters"
+          | "retryPolicy"
+          | "capture"
+          | "padding"
+        >
+      ): Chainable<VibeExtracted<Shape>>;
+
+      /**
+       * Audit the accessibility of the element, or the page, against a built-in
+       * rubric. The screenshot is sent with the computed colors, contrast ratios,
+       * font sizes, sizes and ARIA attributes the browser knows
+       * Fails on the rules that did not pass, and yields the finding of each rule
+       * @param options Rules to audit, all by default, and the options of vibeCheck
+       * @example cy.get('form').vibeA11y({ rules: ['contrast', 'touch-targets'] })
+       */
+      vibeA11y(
+        options?: Omit<
+          Parameters<Chainable["vibeCheck"]>[1] & {},
+          "baseline" | "viewports" | "themes"
+        > & {
+          rules?: VibeA11yRule[];
+        }
+      ): Chainable<VibeA11yFinding[]>;
+
+      /**
+       * Start a multi-step flow check, for specifications about transitions
+       * Yields a builder capturing labeled screenshots with step() and
+       * evaluating them together with check()
+       * @param name Name of the flow, used in the screenshot names
+       * @example cy.vibeFlow('save').then((flow) => {
+       *   flow.step('Filled in form')
+       *   cy.contains('Save').click()
+       *   flow.step('After clicking Save')
+       *   flow.check('After clicking Save, a green toast appears and the form resets')
+       * })
+       */
+      vibeFlow(name?: string): Chainable<VibeFlow>;
+
+      /**
+       * Check if the whole page matches the visual specification using LLM
+       * Useful for page-level layout specifications
+       * @param specification Text specification, or checklist of criteria, to evaluate the page against
+       * @param options Optional configuration for this specific check, capture defaults to "fullPage"
+       * @example cy.vibeCheckPage('A two-column layout with a sidebar on the left')
+       */
+      vibeCheckPage(
+        specification: VibeSpecification,
+        options?: Omit<
+          Parameters<Chainable["vibeCheck"]>[1] & {},
+          "capture" | "padding"
+        > & {
+          capture?: "viewport" | "fullPage";
+        }
+      ): Chainable<null>;
     }
   }
 }
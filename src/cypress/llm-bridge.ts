@@ -3,7 +3,19 @@
  * and the LLM service.
  */
 
-import { EvaluateOptions, LLMResponse } from "../types/llm";
+import {
+  EvaluateOptions,
+  ExtractionResponse,
+  ExtractionShape,
+  FlowStep,
+  LLMResponse,
+} from "../types/llm";
+
+/**
+ * Identifies this run of the spec. Every run, including a re-run in
+ * cypress open, loads the support file again
+ */
+const SPEC_RUN = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
 
 /**
  * Browser-compatible LLM evaluation service
@@ -27,14 +39,188 @@ class LLMBridgeService {
     cy.log(`[LLM Bridge] Evaluating screenshot: ${screenshotPath}`);
     cy.log(`[LLM Bridge] Specification: ${specification}`);
 
-    // Use Cypress task to run the evaluation in Node.js
-    // Simply returning the task command which is already a Cypress.Chainable
-    return cy.task<LLMResponse>("evaluateScreenshotWithLLM", {
-      screenshotPath,
-      specification,
-      options,
-      providerName,
-    });
+    // Use Cypress task to run the evaluation in Node.js, with a timeout
+    // sized there from the registered providers
+    return this.getTaskTimeout(options, providerName).then((timeout) =>
+      cy.task<LLMResponse>(
+        "evaluateScreenshotWithLLM",
+        {
+          screenshotPath,
+          specification,
+          options,
+          providerName,
+          // Locates the cassette of the spec in record/replay mode
+          specPath: Cypress.spec.relative,
+          specRun: SPEC_RUN,
+        },
+        { timeout }
+      )
+    );
+  }
+
+  /**
+   * Compare a screenshot with a reference image
+   * @param screenshotPath Path to the screenshot file
+   * @param referencePath Path to the reference image, relative to the project root
+   * @param specification Text saying how the screenshot must compare to the reference
+   * @param options Evaluation options
+   * @param providerName Optional provider name
+   * @returns Promise with LLM response
+   */
+  compareScreenshot(
+    screenshotPath: string,
+    referencePath: string,
+    specification: string,
+    options: EvaluateOptions = {},
+    providerName?: string
+  ): Cypress.Chainable<LLMResponse> {
+    cy.log(`[LLM Bridge] Comparing screenshot: ${screenshotPath}`);
+    cy.log(`[LLM Bridge] Reference: ${referencePath}`);
+
+    return this.getTaskTimeout(options, providerName).then((timeout) =>
+      cy.task<LLMResponse>(
+        "compareScreenshotWithLLM",
+        {
+          screenshotPath,
+          referencePath,
+          specification,
+          options,
+          providerName,
+          specPath: Cypress.spec.relative,
+          specRun: SPEC_RUN,
+        },
+        { timeout }
+      )
+    );
+  }
+
+  /**
+   * Read structured data off a screenshot
+   * @param screenshotPath Path to the screenshot file
+   * @param shape Fields to extract and their types
+   * @param options Evaluation options
+   * @param providerName Optional provider name
+   * @returns Promise with the extracted data
+   */
+  extractData(
+    screenshotPath: string,
+    shape: ExtractionShape,
+    options: EvaluateOptions = {},
+    providerName?: string
+  ): Cypress.Chainable<ExtractionResponse> {
+    cy.log(`[LLM Bridge] Extracting data from screenshot: ${screenshotPath}`);
+    cy.log(`[LLM Bridge] Fields: ${Object.keys(shape).join(", ")}`);
+
+    return this.getTaskTimeout(options, providerName).then((timeout) =>
+      cy.task<ExtractionResponse>(
+        "extractDataWithLLM",
+        {
+          screenshotPath,
+          shape,
+          options,
+          providerName,
+          specPath: Cypress.spec.relative,
+          specRun: SPEC_RUN,
+        },
+        { timeout }
+      )
+    );
+  }
+
+  /**
+   * Evaluate the screenshots of a flow together against one specification
+   * @param steps Labeled screenshots of the steps, in order
+   * @param specification Text specification of the whole flow
+   * @param options Evaluation options
+   * @param providerName Optional provider name
+   * @returns Promise with LLM response
+   */
+  evaluateFlow(
+    steps: FlowStep[],
+    specification: string,
+    options: EvaluateOptions = {},
+    providerName?: string
+  ): Cypress.Chainable<LLMResponse> {
+    cy.log(`[LLM Bridge] Evaluating flow of ${steps.length} steps`);
+    cy.log(`[LLM Bridge] Specification: ${specification}`);
+
+    return this.getTaskTimeout(options, providerName).then((timeout) =>
+      cy.task<LLMResponse>(
+        "evaluateFlowWithLLM",
+        {
+          steps,
+          specification,
+          options,
+          providerName,
+          specPath: Cypress.spec.relative,
+          specRun: SPEC_RUN,
+        },
+        { timeout }
+      )
+    );
+  }
+
+  /**
+   * Evaluate a screenshot, comparing it with the baseline of the check once one was accepted
+   * @param screenshotPath Path to the screenshot file
+   * @param specification Text specification to evaluate against
+   * @param baseline Test and check the baseline belongs to, the differences
+   * tolerated, and whether to accept a passing result as the new baseline as in update mode
+   * @param options Evaluation options
+   * @param providerName Optional provider name
+   * @returns Promise with LLM response
+   */
+  evaluateScreenshotWithBaseline(
+    screenshotPath: string,
+    specification: string,
+    baseline: {
+      test: string[];
+      check: string;
+      tolerance: string;
+      update?: boolean;
+    },
+    options: EvaluateOptions = {},
+    providerName?: string
+  ): Cypress.Chainable<LLMResponse> {
+    cy.log(`[LLM Bridge] Evaluating screenshot: ${screenshotPath}`);
+    cy.log(`[LLM Bridge] Baseline: ${baseline.check}`);
+
+    return this.getTaskTimeout(options, providerName).then((timeout) =>
+      cy.task<LLMResponse>(
+        "evaluateScreenshotWithBaseline",
+        {
+          screenshotPath,
+          specification,
+          options,
+          providerName,
+          specPath: Cypress.spec.relative,
+          specRun: SPEC_RUN,
+          ...baseline,
+        },
+        { timeout }
+      )
+    );
+  }
+
+  /**
+   * Get the timeout of an evaluation task, long enough for the requests to
+   * wait for rate limits and retry, and never shorter than taskTimeout
+   * Computed in Node.js, where the providers are registered
+   * @param options Evaluation options
+   * @param providerName Optional provider name
+   * @returns Timeout in milliseconds
+   */
+  getTaskTimeout(
+    options: EvaluateOptions = {},
+    providerName?: string
+  ): Cypress.Chainable<number> {
+    return cy
+      .task<number>(
+        "getVibeTaskTimeout",
+        { options, providerName },
+        { log: false }
+      )
+      .then((timeoutMs) => Math.max(Cypress.config("taskTimeout"), timeoutMs));
   }
 }
 
@@ -1,19 +1,63 @@
 import fs from "fs";
+import path from "path";
 // Import directly from source files to avoid circular dependencies
 import { initializeLLMService } from "../utils/llm-initializer";
 import { llmService } from "../utils/llm-service";
 import { ensureDirSync } from "../utils/fs-utils";
+import {
+  EvaluateOptions,
+  ExtractionResponse,
+  FlowStep,
+  LLMProviderRegistration,
+  LLMResponse,
+} from "../types/llm";
+import { getErrorInfo } from "../providers/errors";
+import { loadConfig } from "../config/config";
+import { UsageTracker } from "../utils/usage";
+import { BaselineStore } from "../utils/baseline-store";
+
+/**
+ * Options for setupCypressVibeCheck
+ */
+export interface VibeCheckPluginOptions {
+  /** Whether to automatically register commands (defaults to true) */
+  registerCommands?: boolean;
+
+  /**
+   * Additional providers to register by name, selectable with
+   * cy.vibeCheck(spec, { provider: name }). Values can be LLMProvider
+   * instances, factories returning one, or a built-in type and config.
+   */
+  providers?: Record<string, LLMProviderRegistration>;
+}
 
 // Initialize LLM service only in Node.js context
 let llmServiceInitialized = false;
+// "vibe" settings from the Cypress environment, captured in setupCypressVibeCheck
+let cypressEnvConfig: Record<string, any> | undefined;
+// Providers passed to setupCypressVibeCheck, registered after the configured ones
+let customProviders: Record<string, LLMProviderRegistration> = {};
 function getLLMService() {
   if (!llmServiceInitialized) {
     try {
-      initializeLLMService();
-      llmServiceInitialized = true;
+      initializeLLMService(cypressEnvConfig);
     } catch (error) {
       console.warn("Error initializing LLM service:", error);
     }
+
+    for (const [name, provider] of Object.entries(customProviders)) {
+      try {
+        llmService.registerProvider(
+          name,
+          provider,
+          name === cypressEnvConfig?.defaultProvider
+        );
+      } catch (error) {
+        console.warn(`Error registering provider "${name}":`, error);
+      }
+    }
+
+    llmServiceInitialized = true;
   }
   return llmService;
 }
@@ -26,15 +70,199 @@ function getLLMService() {
  * @param config - Cypress plugin config
  * @param options - Optional configuration options
  * @param options.registerCommands - Whether to automatically register commands (defaults to true)
+ * @param options.providers - Additional providers to register by name
  * @returns The modified Cypress config
  */
 export function setupCypressVibeCheck(
   on: Cypress.PluginEvents,
   config: Cypress.PluginConfigOptions,
-  options: { registerCommands?: boolean } = {}
+  options: VibeCheckPluginOptions = {}
 ) {
   // Default options
-  const { registerCommands = true } = options;
+  const { registerCommands = true, providers = {} } = options;
+
+  config.env = config.env || {};
+
+  // VIBE_DEFAULT_PROVIDER switches the whole run, so hand it to the browser side too
+  if (process.env.VIBE_DEFAULT_PROVIDER) {
+    config.env.vibe = {
+      ...(config.env.vibe || {}),
+      defaultProvider: process.env.VIBE_DEFAULT_PROVIDER,
+    };
+  }
+
+  // Make the Cypress env "vibe" settings available to the Node.js side
+  cypressEnvConfig = config.env.vibe;
+  customProviders = providers;
+  llmServiceInitialized = false;
+
+  // Usage of every vibe check in this run, priced and checked against the budget
+  const { budget, prices, cassettes, baselines, evaluation } =
+    loadConfig(cypressEnvConfig);
+  const usageTracker = new UsageTracker(prices);
+
+  // Golden baselines, committed with the project
+  const baselineStore = new BaselineStore({
+    directory: path.resolve(config.projectRoot || "", baselines.directory),
+    update: baselines.update,
+  });
+
+  // Print what the run cost once it is over
+  on("after:run", () => {
+    const summary = usageTracker.getSummary();
+
+    if (summary.checks === 0) {
+      return;
+    }
+
+    console.log(
+      `[Vibe Check] ${summary.checks} evaluations, ${summary.inputTokens} input / ${summary.outputTokens} output tokens, estimated cost $${summary.estimatedCost.toFixed(
+        4
+      )}`
+    );
+
+    for (const [model, totals] of Object.entries(summary.models)) {
+      console.log(
+        `[Vibe Check]   ${model}: ${totals.checks} evaluations, ${totals.inputTokens} input / ${totals.outputTokens} output tokens, $${totals.estimatedCost.toFixed(
+          4
+        )}`
+      );
+    }
+
+    if (summary.unpricedModels.length > 0) {
+      console.log(
+        `[Vibe Check] No price for ${summary.unpricedModels.join(
+          ", "
+        )}, add them to vibe.prices to include them in the cost`
+      );
+    }
+  });
+
+  /**
+   * Record or replay the provider requests in a cassette next to the spec
+   * The cache is bypassed, a cached answer would leave the cassette incomplete
+   * @param options Evaluation options
+   * @param specPath Path of the spec, relative to the project root
+   * @param specRun Identifies the run of the spec, a new run starts the cassette over
+   * @returns Options with the cassette of the spec, when recording or replaying
+   */
+  function withCassette(
+    options: EvaluateOptions,
+    specPath?: string,
+    specRun?: string
+  ): EvaluateOptions {
+    if (cassettes.mode === "off" || !specPath) {
+      return options;
+    }
+
+    return {
+      ...options,
+      cache: false,
+      cassette: {
+        mode: cassettes.mode,
+        path: path.join(
+          path.dirname(path.resolve(config.projectRoot || "", specPath)),
+          cassettes.directory,
+          `${path.basename(specPath)}.json`
+        ),
+        run: specRun,
+      },
+    };
+  }
+
+  /**
+   * Evaluate a screenshot with the LLM service, within the run's budget,
+   * in the cassette of the spec when recording or replaying
+   * @returns LLM response, or a failing response describing the error
+   */
+  function evaluateWithLLM({
+    screenshotPath,
+    specification,
+    options,
+    providerName,
+    specPath,
+    specRun,
+  }: {
+    screenshotPath: string;
+    specification: string;
+    options: EvaluateOptions;
+    providerName?: string;
+    specPath?: string;
+    specRun?: string;
+  }): LLMResponse | Promise<LLMResponse> {
+    // This runs in the Node.js context
+    const service = getLLMService();
+
+    // Don't spend more once the budget is used up
+    const budgetExceeded = usageTracker.checkBudget(budget);
+    if (budgetExceeded) {
+      console.warn(budgetExceeded);
+      return budget?.onExceeded === "skip"
+        ? {
+            verdict: "no",
+            confidence: 0,
+            skipped: true,
+            reasoning: budgetExceeded,
+          }
+        : {
+            verdict: "no",
+            confidence: 0,
+            failReason: "Vibe check budget exceeded",
+            reasoning: budgetExceeded,
+          };
+    }
+
+    // First, ensure the screenshot file exists
+    try {
+      // Verify file exists before proceeding to avoid errors
+      if (!fs.existsSync(screenshotPath)) {
+        console.error(`Screenshot file not found at: ${screenshotPath}`);
+        return {
+          verdict: "no",
+          confidence: 0,
+          failReason: "Screenshot file not found",
+          reasoning: `Screenshot does not exist at path: ${screenshotPath}`,
+        };
+      }
+
+      return service
+        .evaluateScreenshot(
+          screenshotPath,
+          specification,
+          withCassette(options, specPath, specRun),
+          providerName
+        )
+        .then((result) => {
+          // A cached answer cost nothing this time
+          if (result.cacheStatus !== "hit") {
+            usageTracker.record(result);
+          }
+          return result;
+        })
+        .catch((error) => {
+          console.error("Error evaluating screenshot:", error);
+          const errorInfo = getErrorInfo(error);
+
+          // Requests answered before the failure still count
+          usageTracker.record({ error: errorInfo });
+          return {
+            verdict: "no",
+            confidence: 0,
+            failReason: `Error communicating with LLM service (${errorInfo.type})`,
+            reasoning: errorInfo.message,
+            error: errorInfo,
+          };
+        });
+    } catch (error: unknown) {
+      console.error("Error in vibe check evaluation task:", error);
+      return {
+        verdict: "no",
+        confidence: 0,
+        failReason: "Error in screenshot evaluation task",
+        reasoning: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
 
   // Register tasks for LLM evaluation and filesystem operations
   on("task", {
@@ -49,54 +277,228 @@ export function setupCypressVibeCheck(
       }
     },
 
+    // Task to remove every cached evaluation
+    clearVibeCache() {
+      return getLLMService().clearCache();
+    },
+
+    // Task to get the usage of the run so far
+    getVibeUsage() {
+      return usageTracker.getSummary();
+    },
+
+    // Task to get the timeout of an evaluation task, from the providers registered here
+    getVibeTaskTimeout({ options, providerName }) {
+      return getLLMService().getTaskTimeout(options, providerName);
+    },
+
     // Task to evaluate a screenshot with an LLM
-    evaluateScreenshotWithLLM({
+    evaluateScreenshotWithLLM(args) {
+      return evaluateWithLLM(args);
+    },
+
+    // Task to compare a screenshot with a reference image using an LLM
+    compareScreenshotWithLLM({ referencePath, referenceLabel, ...args }) {
+      // Reference images are checked into the repo, relative to the project root
+      const resolvedReferencePath = path.resolve(
+        config.projectRoot || "",
+        referencePath
+      );
+
+      if (!fs.existsSync(resolvedReferencePath)) {
+        console.error(`Reference image not found at: ${resolvedReferencePath}`);
+        return {
+          verdict: "no",
+          confidence: 0,
+          failReason: "Reference image not found",
+          reasoning: `Reference image does not exist at path: ${resolvedReferencePath}`,
+        };
+      }
+
+      return evaluateWithLLM({
+        ...args,
+        options: {
+          ...args.options,
+          referenceImages: [
+            { path: resolvedReferencePath, label: referenceLabel },
+          ],
+        },
+      });
+    },
+
+    // Task to read structured data off a screenshot with an LLM
+    extractDataWithLLM({
       screenshotPath,
-      specification,
+      shape,
       options,
       providerName,
+      specPath,
+      specRun,
+    }): ExtractionResponse | Promise<ExtractionResponse> {
+      // Extractions cannot be skipped, the test needs the data
+      const budgetExceeded = usageTracker.checkBudget(budget);
+      if (budgetExceeded) {
+        console.warn(budgetExceeded);
+        return {
+          data: {},
+          error: { type: "unknown", message: budgetExceeded },
+        };
+      }
+
+      if (!fs.existsSync(screenshotPath)) {
+        console.error(`Screenshot file not found at: ${screenshotPath}`);
+        return {
+          data: {},
+          error: {
+            type: "unknown",
+            message: `Screenshot does not exist at path: ${screenshotPath}`,
+          },
+        };
+      }
+
+      return getLLMService()
+        .extractData(
+          screenshotPath,
+          shape,
+          withCassette(options, specPath, specRun),
+          providerName
+        )
+        .then((result) => {
+          usageTracker.record(result);
+          return result;
+        })
+        .catch((error) => {
+          console.error("Error extracting data from screenshot:", error);
+          const errorInfo = getErrorInfo(error);
+
+          // Requests answered before the failure still count
+          usageTracker.record({ error: errorInfo });
+          return { data: {}, error: errorInfo };
+        });
+    },
+
+    // Task to evaluate the screenshots of a flow together with an LLM
+    evaluateFlowWithLLM({ steps, ...args }) {
+      const missing = (steps as FlowStep[]).find(
+        (step) => !fs.existsSync(step.path)
+      );
+
+      if (steps.length === 0 || missing) {
+        return {
+          verdict: "no",
+          confidence: 0,
+          failReason: missing
+            ? "Screenshot file not found"
+            : "The flow has no steps",
+          reasoning: missing
+            ? `Screenshot of step "${missing.label}" does not exist at path: ${missing.path}`
+            : "Capture at least one step with flow.step() before flow.check()",
+        };
+      }
+
+      return evaluateWithLLM({
+        ...args,
+        screenshotPath: steps[0].path,
+        options: { ...args.options, flowSteps: steps },
+      });
+    },
+
+    // Task to evaluate a screenshot and compare it with the baseline of the check
+    evaluateScreenshotWithBaseline({
+      test,
+      check,
+      tolerance,
+      update,
+      ...args
     }) {
-      // This runs in the Node.js context
-      const service = getLLMService();
+      const key = { spec: args.specPath || "", test, check };
+      const existing = baselineStore.get(key);
+      const updating = !!update || baselineStore.isUpdating();
 
-      // First, ensure the screenshot file exists
-      try {
-        // Verify file exists before proceeding to avoid errors
-        if (!fs.existsSync(screenshotPath)) {
-          console.error(`Screenshot file not found at: ${screenshotPath}`);
-          return {
-            verdict: "no",
-            confidence: 0,
-            failReason: "Screenshot file not found",
-            reasoning: `Screenshot does not exist at path: ${screenshotPath}`,
-          };
-        }
-
-        return service
-          .evaluateScreenshot(
-            screenshotPath,
-            specification,
-            options,
-            providerName
-          )
-          .catch((error) => {
-            console.error("Error evaluating screenshot:", error);
-            return {
-              verdict: "no",
-              confidence: 0,
-              failReason: "Error communicating with LLM service",
-              reasoning: error.message,
-            };
-          });
-      } catch (error: unknown) {
-        console.error("Error in evaluateScreenshotWithLLM task:", error);
+      // A verdict accepted for another specification says nothing about this one
+      if (
+        existing &&
+        !updating &&
+        existing.record.specification !== args.specification
+      ) {
         return {
           verdict: "no",
           confidence: 0,
-          failReason: "Error in screenshot evaluation task",
-          reasoning: error instanceof Error ? error.message : "Unknown error",
+          failReason:
+            "Baseline specification changed; rerun with VIBE_UPDATE_BASELINES=1 to accept a new baseline",
+          reasoning: `The baseline of this check was accepted for "${existing.record.specification}", not for "${args.specification}"`,
+          baseline: { status: "outdated", path: existing.imagePath },
         };
       }
+
+      // Without a baseline, or when updating, a passing result becomes the baseline
+      if (!existing || updating) {
+        return Promise.resolve(evaluateWithLLM(args)).then((result) => {
+          const threshold =
+            args.options.confidenceThreshold ?? evaluation.confidenceThreshold;
+
+          if (
+            result.skipped ||
+            result.verdict !== "yes" ||
+            result.confidence < threshold
+          ) {
+            return result;
+          }
+
+          const baseline = baselineStore.accept(
+            key,
+            args.screenshotPath,
+            args.specification,
+            result
+          );
+
+          return {
+            ...result,
+            baseline: {
+              status: existing ? "updated" : "recorded",
+              path: baseline.imagePath,
+            },
+          };
+        });
+      }
+
+      // Nothing changed, so the accepted verdict still holds
+      if (
+        fs.existsSync(args.screenshotPath) &&
+        baselineStore.isUnchanged(existing, args.screenshotPath)
+      ) {
+        const { record } = existing;
+        return {
+          verdict: record.verdict,
+          confidence: record.confidence,
+          reasoning:
+            `Identical to the baseline accepted on ${record.acceptedAt}. ${
+              record.reasoning || ""
+            }`.trim(),
+          provider: record.provider,
+          baseline: { status: "unchanged", path: existing.imagePath },
+        };
+      }
+
+      return Promise.resolve(
+        evaluateWithLLM({
+          ...args,
+          specification: `${tolerance}. The reference image is the approved baseline of this check, accepted as matching: "${
+            args.specification
+          }"`,
+          options: {
+            ...args.options,
+            // The comparison gives one verdict, the checklist is part of the specification
+            criteria: undefined,
+            referenceImages: [
+              { path: existing.imagePath, label: "Approved baseline" },
+            ],
+          },
+        })
+      ).then((result) => ({
+        ...result,
+        baseline: { status: "compared", path: existing.imagePath },
+      }));
     },
   });
 
@@ -109,7 +511,6 @@ export function setupCypressVibeCheck(
       : [originalSupportFile];
 
     // Add a flag to config.env to indicate commands should be auto-registered
-    config.env = config.env || {};
     config.env.autoRegisterVibeCommands = true;
   }
 
@@ -6,3 +6,26 @@ export { autoRegisterCommands } from "./cypress/autoinit";
 
 // 3. Export only the types needed for the public interface
 export type { VibeConfig } from "./config/config";
+export type { VibeCheckPluginOptions } from "./cypress/plugin";
+export type { UsageSummary, VibeBudget } from "./utils/usage";
+export type {
+  A11yElementFacts,
+  BaselineResult,
+  Criterion,
+  CriterionResult,
+  EvaluateOptions,
+  ExtractionResponse,
+  ExtractionShape,
+  LLMProvider,
+  LLMProviderConfig,
+  LLMProviderFactory,
+  LLMProviderRegistration,
+  LLMResponse,
+  LLMUsage,
+  ModelPrice,
+  ProviderErrorInfo,
+  ProviderErrorType,
+  ProviderLimits,
+  ReferenceImage,
+  RetryPolicy,
+} from "./types/llm";
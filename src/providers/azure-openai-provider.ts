@@ -0,0 +1,112 @@
+/**
+ * Azure OpenAI provider implementation for the LLM service
+ * Uses OpenAI models deployed to an Azure OpenAI resource
+ */
+import { ENV_VARS, getEnv } from "../utils/env";
+import { OpenAIProvider, OpenAIProviderConfig } from "./openai-provider";
+
+/**
+ * Configuration options specific to the Azure OpenAI provider
+ */
+export interface AzureOpenAIProviderConfig extends OpenAIProviderConfig {
+  /** Resource endpoint, e.g. https://my-resource.openai.azure.com */
+  endpoint?: string;
+
+  /** Name of the model deployment in the Azure resource */
+  deployment?: string;
+
+  /** Azure OpenAI REST API version, default is 2024-10-21 */
+  apiVersion?: string;
+}
+
+/**
+ * Azure OpenAI implementation of the LLM provider
+ * Shares the request and response handling of the OpenAI provider, but targets
+ * a deployment on an Azure resource and authenticates with the api-key header
+ */
+export class AzureOpenAIProvider extends OpenAIProvider {
+  /** Default Azure OpenAI REST API version */
+  private static readonly DEFAULT_API_VERSION = "2024-10-21";
+
+  /** Name of this provider */
+  protected providerName = "Azure OpenAI";
+
+  /**
+   * Creates a new instance of the Azure OpenAI provider
+   * @param config Configuration for this provider
+   */
+  constructor(config: AzureOpenAIProviderConfig) {
+    super(config);
+  }
+
+  /**
+   * Validates the Azure OpenAI provider configuration
+   * @param config Configuration to validate
+   * @returns Validated configuration
+   */
+  protected validateConfig(
+    config: AzureOpenAIProviderConfig
+  ): AzureOpenAIProviderConfig {
+    // Call parent validation for common fields
+    const validatedConfig = super.validateConfig(
+      config
+    ) as AzureOpenAIProviderConfig;
+
+    // Set Azure-specific defaults from the environment
+    validatedConfig.endpoint = (
+      validatedConfig.endpoint ||
+      getEnv(ENV_VARS.AZURE_OPENAI_ENDPOINT) ||
+      ""
+    ).replace(/\/+$/, "");
+    validatedConfig.deployment =
+      validatedConfig.deployment || getEnv(ENV_VARS.AZURE_OPENAI_DEPLOYMENT);
+    validatedConfig.apiVersion =
+      validatedConfig.apiVersion ||
+      getEnv(
+        ENV_VARS.AZURE_OPENAI_API_VERSION,
+        AzureOpenAIProvider.DEFAULT_API_VERSION
+      );
+
+    return validatedConfig;
+  }
+
+  /**
+   * Gets the chat completions URL of the configured deployment
+   * @returns Endpoint URL
+   */
+  protected getEndpointUrl(): string {
+    const config = this.config as AzureOpenAIProviderConfig;
+
+    if (!config.endpoint || !config.deployment) {
+      throw new Error(
+        `Azure OpenAI requires an endpoint and a deployment. Set config.endpoint and config.deployment, or ${ENV_VARS.AZURE_OPENAI_ENDPOINT} and ${ENV_VARS.AZURE_OPENAI_DEPLOYMENT}.`
+      );
+    }
+
+    return `${config.endpoint}/openai/deployments/${encodeURIComponent(
+      config.deployment
+    )}/chat/completions?api-version=${encodeURIComponent(
+      config.apiVersion || AzureOpenAIProvider.DEFAULT_API_VERSION
+    )}`;
+  }
+
+  /**
+   * Gets the name of the environment variable holding the API key
+   * @returns Environment variable name
+   */
+  protected getApiKeyEnvVar(): string {
+    return ENV_VARS.AZURE_OPENAI_API_KEY;
+  }
+
+  /**
+   * Gets the HTTP headers for a request, authenticating with the api-key header
+   * @param apiKey API key to authenticate with
+   * @returns Request headers
+   */
+  protected getRequestHeaders(apiKey: string): Record<string, string> {
+    return {
+      "Content-Type": "application/json",
+      "api-key": apiKey,
+    };
+  }
+}
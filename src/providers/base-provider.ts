@@ -1,34 +1,139 @@
 import fs from "fs";
 // Import pathExists directly from the source file to avoid circular dependencies
 import { pathExists } from "../utils/fs-utils";
+import { sumUsage } from "../utils/usage";
+import { RequestQueue } from "../utils/request-queue";
+import { getMaxDuration } from "../utils/task-timeout";
 import {
+  A11yElementFacts,
+  Criterion,
   EvaluateOptions,
+  ExtractionResponse,
+  ExtractionShape,
+  FlowStep,
   LLMProvider,
   LLMProviderConfig,
   LLMResponse,
+  LLMUsage,
+  ProviderLimits,
 } from "../types/llm";
+import {
+  A11Y_AUDIT_SCHEMA,
+  buildExtractionSchema,
+  CHECKLIST_EVALUATION_SCHEMA,
+  EVALUATION_SCHEMA,
+  FLOW_EVALUATION_SCHEMA,
+  JsonSchema,
+  MalformedResponseError,
+  normalizeChecklistResponse,
+  normalizeFlowResponse,
+  normalizeLLMResponse,
+  parseExtraction,
+} from "./response-parser";
+import {
+  errorFromResponse,
+  LLMProviderError,
+  NetworkError,
+  TimeoutError,
+  toProviderError,
+  withUsage,
+} from "./errors";
+import { getRetryDelay, isRetryable, resolveRetryPolicy } from "./retry-policy";
+import { openCassette } from "./cassette";
+
+/**
+ * Version of the prompts and schemas sent to the models
+ * Part of the evaluation cache key, bump it whenever a prompt builder or a
+ * response schema changes so cached verdicts are not reused for new prompts
+ */
+export const PROMPT_VERSION = "2";
 
 // Check if we're in a browser environment (Cypress) or Node.js
 const isBrowser =
   typeof window !== "undefined" && typeof window.document !== "undefined";
 
+/**
+ * An image sent to the model as part of a request
+ */
+export interface ImagePart {
+  /** Base64 encoded PNG data */
+  data: string;
+
+  /** Optional label, sent as text right before the image */
+  label?: string;
+}
+
+/**
+ * A provider-neutral request for structured output
+ * Providers translate it into their own wire format
+ */
+export interface StructuredRequest {
+  /** System prompt describing the task */
+  systemPrompt: string;
+
+  /** User message text, sent before the images */
+  userText: string;
+
+  /** Images to send, in order */
+  images: ImagePart[];
+
+  /** JSON schema the answer must follow */
+  schema: JsonSchema;
+
+  /** Name of the schema, used for the response format or tool name */
+  schemaName: string;
+
+  /** Evaluation options */
+  options: EvaluateOptions;
+}
+
+/**
+ * The provider's answer to a structured request
+ */
+export interface StructuredResponse {
+  /** Model output: a parsed object when the provider returns one, otherwise text */
+  output: unknown;
+
+  /** Raw API response, for debugging */
+  raw: unknown;
+
+  /** Token counts reported by the API */
+  usage?: { inputTokens: number; outputTokens: number };
+
+  /** Model that answered, as reported by the API */
+  model?: string;
+}
+
 /**
  * Abstract base class for all LLM providers
  * Handles common functionality like error handling, retries, and configuration
  */
 export abstract class BaseLLMProvider implements LLMProvider {
+  /** Default timeout of a single API request in milliseconds */
+  protected static readonly DEFAULT_TIMEOUT_MS = 60000;
+
   /** Configuration options for the provider */
   protected config: LLMProviderConfig;
 
   /** Name of this provider for logging/identification */
   protected abstract providerName: string;
 
+  /** Whether the missing API key was already reported */
+  private missingApiKeyReported = false;
+
+  /** Queue of the API requests, null when the provider has no limits */
+  private requestQueue: RequestQueue | null = null;
+
+  /** Time the requests of each evaluation waited in the queue, by its options */
+  private queueWaits = new WeakMap<EvaluateOptions, number>();
+
   /**
    * Creates a new instance of the BaseLLMProvider
    * @param config Configuration options
    */
   constructor(config: LLMProviderConfig) {
     this.config = this.validateConfig(config);
+    this.setRequestLimits(this.config);
   }
 
   /**
@@ -45,12 +150,6 @@ export abstract class BaseLLMProvider implements LLMProvider {
       validatedConfig.apiKey = process.env[validatedConfig.apiKeyEnvVar] || "";
     }
 
-    if (!validatedConfig.apiKey) {
-      console.warn(
-        `[${this.providerName}] No API key provided. Set config.apiKey or config.apiKeyEnvVar.`
-      );
-    }
-
     // Set default values
     validatedConfig.defaultConfidenceThreshold =
       validatedConfig.defaultConfidenceThreshold || 0.8;
@@ -60,6 +159,70 @@ export abstract class BaseLLMProvider implements LLMProvider {
     return validatedConfig;
   }
 
+  /**
+   * Whether this provider needs an API key to make requests
+   * Providers talking to locally hosted models can override this to skip the key warning
+   * @param config Configuration of the provider
+   * @returns True if an API key is required
+   */
+  protected requiresApiKey(config: LLMProviderConfig): boolean {
+    return true;
+  }
+
+  /**
+   * Warns once about a missing API key, when the provider is first used
+   * Registered providers that are never used stay quiet
+   * @param options Evaluation options, replayed requests need no key
+   */
+  private reportMissingApiKey(options: EvaluateOptions): void {
+    if (
+      this.missingApiKeyReported ||
+      this.config.apiKey ||
+      !this.requiresApiKey(this.config) ||
+      this.isReplaying(options)
+    ) {
+      return;
+    }
+
+    this.missingApiKeyReported = true;
+    console.warn(
+      `[${this.providerName}] No API key provided. Set config.apiKey or config.apiKeyEnvVar.`
+    );
+  }
+
+  /**
+   * Gets the configured model
+   * @returns Model name, or undefined when the provider's default model is used
+   */
+  getModel(): string | undefined {
+    return this.config.model;
+  }
+
+  /**
+   * Limits the API requests sent by postJson
+   * Requests over the limits wait in a first-in, first-out queue
+   * @param limits Maximum concurrency and requests per minute, or null to remove the limits
+   */
+  setRequestLimits(limits: ProviderLimits | null): void {
+    const { maxConcurrency, requestsPerMinute } = limits || {};
+
+    this.config = { ...this.config, maxConcurrency, requestsPerMinute };
+    this.requestQueue =
+      maxConcurrency || requestsPerMinute
+        ? new RequestQueue({ maxConcurrency, requestsPerMinute })
+        : null;
+  }
+
+  /**
+   * Gets the longest time evaluations started together may take
+   * @param options Evaluation options of the check
+   * @param evaluations Number of evaluations started together
+   * @returns Upper bound in milliseconds
+   */
+  getMaxDuration(options: EvaluateOptions, evaluations: number): number {
+    return getMaxDuration(this.config, options, evaluations);
+  }
+
   /**
    * Evaluates a screenshot against a specification using the LLM
    * Includes retry logic and error handling
@@ -90,69 +253,556 @@ export abstract class BaseLLMProvider implements LLMProvider {
       maxRetries: this.config.defaultMaxRetries,
       ...options,
     };
+    this.reportMissingApiKey(mergedOptions);
 
-    let lastError: Error | null = null;
+    const response = await this.withRetries(mergedOptions, () =>
+      this.evaluateScreenshotInternal(
+        screenshotPath,
+        specification,
+        mergedOptions
+      )
+    );
 
-    // Attempt with retries
-    for (
-      let attempt = 1;
-      attempt <= (mergedOptions.maxRetries || 1);
-      attempt++
-    ) {
+    return this.withQueueWait(mergedOptions, response);
+  }
+
+  /**
+   * Reads structured data off a screenshot
+   * Includes retry logic and error handling
+   * @param screenshotPath Path to screenshot file
+   * @param shape Fields to extract and their types
+   * @param options Evaluation options
+   * @returns Extracted data
+   */
+  async extractData(
+    screenshotPath: string,
+    shape: ExtractionShape,
+    options?: EvaluateOptions
+  ): Promise<ExtractionResponse> {
+    if (!isBrowser && !(await pathExists(screenshotPath))) {
+      throw new Error(`Screenshot does not exist at path: ${screenshotPath}`);
+    }
+
+    const mergedOptions: EvaluateOptions = {
+      maxRetries: this.config.defaultMaxRetries,
+      ...options,
+    };
+    this.reportMissingApiKey(mergedOptions);
+
+    const response = await this.withRetries(mergedOptions, () =>
+      this.extractDataInternal(screenshotPath, shape, mergedOptions)
+    );
+
+    return this.withQueueWait(mergedOptions, response);
+  }
+
+  /**
+   * Adds the time the requests of an evaluation waited in the queue to its result
+   * @param options Evaluation options the requests were sent with
+   * @param result Result of the evaluation
+   * @returns Result, with the queue wait when the requests waited
+   */
+  private withQueueWait<T extends { queueWaitMs?: number }>(
+    options: EvaluateOptions,
+    result: T
+  ): T {
+    const waitMs = this.queueWaits.get(options);
+
+    if (!waitMs) {
+      return result;
+    }
+
+    console.log(`[${this.providerName}] Requests waited ${waitMs}ms in queue`);
+    return { ...result, queueWaitMs: waitMs };
+  }
+
+  /**
+   * Runs an operation, retrying failures according to the retry policy
+   * @param options Evaluation options with the attempt count and retry policy
+   * @param operation Operation to run
+   * @returns Result of the first successful attempt, its usage including the failed attempts
+   * @throws LLMProviderError of the last attempt, with the number of attempts made and their usage
+   */
+  protected async withRetries<T extends { usage?: LLMUsage }>(
+    options: EvaluateOptions,
+    operation: () => Promise<T>
+  ): Promise<T> {
+    const maxAttempts = options.maxRetries || 1;
+    const policy = resolveRetryPolicy(
+      this.config.retryPolicy,
+      options.retryPolicy
+    );
+    let totalWaitMs = 0;
+
+    // Usage of the failed attempts that got an answer, they cost tokens too
+    const spent: LLMUsage[] = [];
+
+    for (let attempt = 1; ; attempt++) {
       try {
         // Log the attempt if not the first
         if (attempt > 1) {
           console.log(
-            `[${this.providerName}] Retry attempt ${attempt}/${mergedOptions.maxRetries}`
+            `[${this.providerName}] Retry attempt ${attempt}/${maxAttempts}`
           );
         }
 
-        // Call the provider-specific implementation
-        const result = await this.evaluateScreenshotInternal(
-          screenshotPath,
-          specification,
-          mergedOptions
-        );
+        const result = await operation();
 
-        return result;
-      } catch (error) {
-        lastError = error as Error;
+        return spent.length > 0 && result.usage
+          ? { ...result, usage: sumUsage([...spent, result.usage]) }
+          : result;
+      } catch (caught) {
+        const error = toProviderError(caught);
+        error.attempts = attempt;
+        spent.push(...(error.usage || []));
+        error.usage = spent.length > 0 ? [sumUsage(spent)] : undefined;
         console.error(
-          `[${this.providerName}] Error (attempt ${attempt}/${mergedOptions.maxRetries}):`,
-          error
+          `[${this.providerName}] ${error.type} error (attempt ${attempt}/${maxAttempts}):`,
+          caught
         );
 
-        // No more retries, rethrow the error
-        if (attempt >= (mergedOptions.maxRetries || 1)) {
+        // No more attempts, or retrying would fail the same way
+        if (attempt >= maxAttempts || !isRetryable(policy, error.type)) {
           throw error;
         }
 
-        // Wait before retrying (exponential backoff)
-        await new Promise((resolve) =>
-          setTimeout(resolve, 1000 * Math.pow(2, attempt - 1))
-        );
+        const delayMs = getRetryDelay(policy, attempt, error);
+
+        // Give up rather than exceed the total wait budget
+        if (totalWaitMs + delayMs > policy.maxTotalWaitMs) {
+          console.warn(
+            `[${this.providerName}] Not retrying, waiting ${delayMs}ms would exceed the total wait of ${policy.maxTotalWaitMs}ms`
+          );
+          throw error;
+        }
+
+        totalWaitMs += delayMs;
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
       }
     }
-
-    // This should never happen due to the throw in the loop, but TypeScript doesn't know that
-    throw (
-      lastError ||
-      new Error(`Unknown error evaluating screenshot with ${this.providerName}`)
-    );
   }
 
   /**
-   * Provider-specific implementation for evaluating a screenshot
+   * Evaluates a single screenshot against a specification
+   * Builds the structured request and normalizes the answer
    * @param screenshotPath Path to screenshot file
    * @param specification Specification text to evaluate against
    * @param options Evaluation options
    * @returns LLM response
    */
-  protected abstract evaluateScreenshotInternal(
+  protected async evaluateScreenshotInternal(
     screenshotPath: string,
     specification: string,
     options: EvaluateOptions
-  ): Promise<LLMResponse>;
+  ): Promise<LLMResponse> {
+    if (options.flowSteps && options.flowSteps.length > 0) {
+      return this.evaluateFlowInternal(
+        options.flowSteps,
+        specification,
+        options
+      );
+    }
+
+    if (options.criteria && options.criteria.length > 0) {
+      return this.evaluateChecklistInternal(
+        screenshotPath,
+        options.criteria,
+        options
+      );
+    }
+
+    const base64Image = await this.getImageAsBase64(screenshotPath);
+
+    if (!base64Image) {
+      throw new Error(`Could not read screenshot file: ${screenshotPath}`);
+    }
+
+    const references = options.referenceImages || [];
+    const images: ImagePart[] = [{ data: base64Image }];
+
+    for (const [index, reference] of references.entries()) {
+      const data = await this.getImageAsBase64(reference.path);
+
+      if (!data) {
+        throw new Error(`Could not read reference image: ${reference.path}`);
+      }
+
+      images.push({
+        data,
+        label: `${reference.label || "Reference image"}${
+          references.length > 1 ? ` ${index + 1}` : ""
+        }:`,
+      });
+    }
+
+    if (references.length > 0) {
+      images[0].label = "Current screenshot:";
+    }
+
+    const { value, raw, usage } = await this.requestStructuredOutput(
+      {
+        systemPrompt:
+          references.length > 0
+            ? this.getComparisonPrompt(specification)
+            : this.getSystemPrompt(specification),
+        userText:
+          references.length > 0
+            ? "Evaluate if the current screenshot matches the reference under the specification."
+            : "Evaluate if this UI element matches the specification.",
+        images,
+        schema: EVALUATION_SCHEMA,
+        schemaName: "ui_evaluation",
+        options,
+      },
+      normalizeLLMResponse
+    );
+
+    return {
+      ...value,
+      rawResponse: options.includeRawResponse ? raw : undefined,
+      usage,
+    };
+  }
+
+  /**
+   * Evaluates the screenshots of a flow together against one specification
+   * @param steps Labeled screenshots of the steps, in order
+   * @param specification Specification text describing the flow
+   * @param options Evaluation options
+   * @returns LLM response, naming the step that broke the specification
+   */
+  protected async evaluateFlowInternal(
+    steps: FlowStep[],
+    specification: string,
+    options: EvaluateOptions
+  ): Promise<LLMResponse> {
+    const images: ImagePart[] = [];
+
+    for (const [index, step] of steps.entries()) {
+      const data = await this.getImageAsBase64(step.path);
+
+      if (!data) {
+        throw new Error(`Could not read screenshot file: ${step.path}`);
+      }
+
+      images.push({ data, label: `Step ${index + 1}: ${step.label}` });
+    }
+
+    const labels = steps.map((step) => step.label);
+    const { value, raw, usage } = await this.requestStructuredOutput(
+      {
+        systemPrompt: this.getFlowPrompt(specification),
+        userText: `Evaluate if this flow of ${steps.length} steps matches the specification.`,
+        images,
+        schema: FLOW_EVALUATION_SCHEMA,
+        schemaName: "ui_flow_evaluation",
+        options,
+      },
+      (output) => normalizeFlowResponse(output, labels)
+    );
+
+    return {
+      ...value,
+      rawResponse: options.includeRawResponse ? raw : undefined,
+      usage,
+    };
+  }
+
+  /**
+   * Evaluates a single screenshot against each criterion of a checklist, in one request
+   * Accessibility audits are checklists of the rules of their rubric, sent
+   * with the DOM facts under their own prompt
+   * @param screenshotPath Path to screenshot file
+   * @param criteria Criteria to evaluate against
+   * @param options Evaluation options
+   * @returns LLM response, with a verdict per criterion
+   */
+  protected async evaluateChecklistInternal(
+    screenshotPath: string,
+    criteria: Criterion[],
+    options: EvaluateOptions
+  ): Promise<LLMResponse> {
+    const base64Image = await this.getImageAsBase64(screenshotPath);
+
+    if (!base64Image) {
+      throw new Error(`Could not read screenshot file: ${screenshotPath}`);
+    }
+
+    const facts = options.a11yFacts;
+    const { value, raw, usage } = await this.requestStructuredOutput(
+      {
+        systemPrompt: facts
+          ? this.getA11yPrompt(criteria, facts)
+          : this.getChecklistPrompt(criteria),
+        userText: facts
+          ? `Audit the accessibility of this UI against each of the ${criteria.length} rules.`
+          : `Evaluate this UI element against each of the ${criteria.length} criteria.`,
+        images: [{ data: base64Image }],
+        schema: facts ? A11Y_AUDIT_SCHEMA : CHECKLIST_EVALUATION_SCHEMA,
+        schemaName: facts ? "ui_a11y_audit" : "ui_checklist_evaluation",
+        options,
+      },
+      (output) => normalizeChecklistResponse(output, criteria)
+    );
+
+    return {
+      ...value,
+      rawResponse: options.includeRawResponse ? raw : undefined,
+      usage,
+    };
+  }
+
+  /**
+   * Reads structured data off a single screenshot
+   * @param screenshotPath Path to screenshot file
+   * @param shape Fields to extract and their types
+   * @param options Evaluation options
+   * @returns Extracted data
+   */
+  protected async extractDataInternal(
+    screenshotPath: string,
+    shape: ExtractionShape,
+    options: EvaluateOptions
+  ): Promise<ExtractionResponse> {
+    const base64Image = await this.getImageAsBase64(screenshotPath);
+
+    if (!base64Image) {
+      throw new Error(`Could not read screenshot file: ${screenshotPath}`);
+    }
+
+    const { value, raw, usage } = await this.requestStructuredOutput(
+      {
+        systemPrompt: this.getExtractionPrompt(shape),
+        userText: "Extract the requested fields from this screenshot.",
+        images: [{ data: base64Image }],
+        schema: buildExtractionSchema(shape),
+        schemaName: "ui_extraction",
+        options,
+      },
+      (output) => parseExtraction(output, shape)
+    );
+
+    return {
+      data: value,
+      rawResponse: options.includeRawResponse ? raw : undefined,
+      usage,
+    };
+  }
+
+  /**
+   * Sends a structured request and parses the answer
+   * If the answer is malformed, re-prompts once with the validation error
+   * so the model can repair it. The repair is a second request of the same
+   * attempt, so an evaluation sends up to twice maxRetries requests
+   * @param request Structured request to send
+   * @param parse Parser validating the output, throwing MalformedResponseError on bad output
+   * @returns Parsed value, raw API response, and usage of all requests sent
+   */
+  protected async requestStructuredOutput<T>(
+    request: StructuredRequest,
+    parse: (output: unknown) => T
+  ): Promise<{ value: T; raw: unknown; usage: LLMUsage }> {
+    const usage: LLMUsage = {
+      model: this.config.model,
+      inputTokens: 0,
+      outputTokens: 0,
+      latencyMs: 0,
+    };
+
+    try {
+      const first = await this.sendMeasured(request, usage);
+
+      try {
+        return { value: parse(first.output), raw: first.raw, usage };
+      } catch (error) {
+        if (!(error instanceof MalformedResponseError)) {
+          throw error;
+        }
+
+        console.warn(
+          `[${this.providerName}] Malformed response (${error.message}), asking the model to repair it`
+        );
+
+        const repaired = await this.sendMeasured(
+          {
+            ...request,
+            userText: `${request.userText}
+
+Your previous answer was invalid: ${error.message}
+Previous answer:
+${error.output}
+
+Answer again with only a JSON object that follows the required format.`,
+          },
+          usage
+        );
+
+        return { value: parse(repaired.output), raw: repaired.raw, usage };
+      }
+    } catch (error) {
+      // Requests that were answered cost tokens even when the answer is unusable
+      throw withUsage(error, [usage]);
+    }
+  }
+
+  /**
+   * Sends a structured request, adding its tokens and latency to a usage record
+   * @param request Structured request to send
+   * @param usage Usage record to update
+   * @returns Model output and raw API response
+   */
+  private async sendMeasured(
+    request: StructuredRequest,
+    usage: LLMUsage
+  ): Promise<StructuredResponse> {
+    const start = Date.now();
+
+    try {
+      const response = await this.sendStructuredRequest(request);
+
+      usage.model = response.model || usage.model;
+      usage.inputTokens += response.usage?.inputTokens || 0;
+      usage.outputTokens += response.usage?.outputTokens || 0;
+
+      return response;
+    } finally {
+      usage.latencyMs += Date.now() - start;
+    }
+  }
+
+  /**
+   * Provider-specific transport for a structured request
+   * Implementations should use the provider's native structured output
+   * mechanism and return the model's answer untouched
+   * @param request Structured request to send
+   * @returns Model output and raw API response
+   */
+  protected abstract sendStructuredRequest(
+    request: StructuredRequest
+  ): Promise<StructuredResponse>;
+
+  /**
+   * Sends a JSON POST request to the provider's API
+   * Waits for the request limits of the provider, replayed requests never
+   * reach the API and do not wait
+   * @param url Endpoint URL
+   * @param headers Request headers
+   * @param body Request body, serialized as JSON
+   * @param options Evaluation options, the cassette to record to or replay from
+   * @returns Parsed JSON response
+   * @throws LLMProviderError classifying the failure
+   */
+  protected async postJson(
+    url: string,
+    headers: Record<string, string>,
+    body: unknown,
+    options: EvaluateOptions = {}
+  ): Promise<any> {
+    if (!this.requestQueue || this.isReplaying(options)) {
+      return this.sendJson(url, headers, body, options);
+    }
+
+    const { value, waitMs } = await this.requestQueue.run(() =>
+      this.sendJson(url, headers, body, options)
+    );
+
+    if (waitMs > 0) {
+      this.queueWaits.set(
+        options,
+        (this.queueWaits.get(options) || 0) + waitMs
+      );
+    }
+
+    return value;
+  }
+
+  /**
+   * Sends a JSON POST request, or replays it from the cassette
+   * Aborts after the configured timeout and turns failures into typed errors
+   * @param url Endpoint URL
+   * @param headers Request headers
+   * @param body Request body, serialized as JSON
+   * @param options Evaluation options, the cassette to record to or replay from
+   * @returns Parsed JSON response
+   * @throws LLMProviderError classifying the failure
+   */
+  private async sendJson(
+    url: string,
+    headers: Record<string, string>,
+    body: unknown,
+    options: EvaluateOptions
+  ): Promise<any> {
+    const timeoutMs =
+      this.config.timeoutMs || BaseLLMProvider.DEFAULT_TIMEOUT_MS;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const cassette = options.cassette && openCassette(options.cassette);
+      let response: Response;
+
+      if (cassette && this.isReplaying(options)) {
+        response = cassette.replay(url, body);
+      } else {
+        response = await fetch(url, {
+          method: "POST",
+          headers,
+          body: JSON.stringify(body),
+          signal: controller.signal,
+        });
+
+        if (cassette) {
+          response = await cassette.record(url, body, response);
+        }
+      }
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw errorFromResponse(this.providerName, response, errorData);
+      }
+
+      return await response.json().catch(() => {
+        throw new MalformedResponseError(
+          `[${this.providerName}] API response is not valid JSON`,
+          ""
+        );
+      });
+    } catch (error) {
+      if (error instanceof LLMProviderError) {
+        throw error;
+      }
+
+      if (controller.signal.aborted) {
+        throw new TimeoutError(
+          `[${this.providerName}] API request timed out after ${timeoutMs}ms`
+        );
+      }
+
+      // fetch only says "fetch failed", the cause has the details
+      const cause =
+        error instanceof Error && "cause" in error ? error.cause : undefined;
+      throw new NetworkError(
+        `[${this.providerName}] Could not reach ${url}: ${
+          cause instanceof Error
+            ? cause.message
+            : error instanceof Error
+              ? error.message
+              : String(error)
+        }`
+      );
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Whether requests are served from a cassette, so no API key is needed
+   * @param options Evaluation options
+   * @returns True in replay mode
+   */
+  protected isReplaying(options: EvaluateOptions): boolean {
+    return options.cassette?.mode === "replay";
+  }
 
   /**
    * Utility function to read a file as base64
@@ -170,8 +820,12 @@ export abstract class BaseLLMProvider implements LLMProvider {
       );
       return ""; // This will be overridden by actual implementation in Cypress
     } else {
-      const imageBuffer = fs.readFileSync(filePath);
-      return imageBuffer.toString("base64");
+      try {
+        const imageBuffer = await fs.promises.readFile(filePath);
+        return imageBuffer.toString("base64");
+      } catch (error) {
+        throw new Error(`Failed to read image file: ${error}`);
+      }
     }
   }
 
@@ -191,14 +845,160 @@ ${specification}
 Evaluate only what is visible in the screenshot. Be precise and objective in your analysis.
 Focus on visual appearance, layout, text content, and interactive elements that are visible.
 
-Respond with a JSON object in the following format:
-{
-  "verdict": "yes" or "no", // Does the UI match the specification?
-  "confidence": 0.0 to 1.0, // How confident are you in your verdict?
-  "failReason": "string", // If verdict is "no", explain why it fails (omit if verdict is "yes")
-  "reasoning": "string", // Your detailed reasoning behind the decision
-  "suggestions": ["string"], // Optional list of suggestions for improvement (omit if none)
-}
+Respond with a JSON object with these fields:
+- verdict: "yes" if the UI matches the specification, "no" if it doesn't
+- confidence: number from 0.0 to 1.0, how confident you are in your verdict
+- reasoning: your detailed reasoning behind the decision
+- failReason: if verdict is "no", a short explanation of why it fails, otherwise null
+- suggestions: list of suggestions for fixing the UI, empty if none
+
+Maintain a high bar for quality and accuracy in your evaluation.
+    `.trim();
+  }
+
+  /**
+   * Utility function to create the system prompt of a checklist evaluation
+   * @param criteria Criteria to evaluate against
+   * @returns System prompt text
+   */
+  protected getChecklistPrompt(criteria: Criterion[]): string {
+    return `
+You are an expert UI evaluator. You will be given a screenshot of a UI element and a checklist of named criteria.
+Your task is to determine, for each criterion separately, if the UI element in the screenshot satisfies it.
+
+Criteria:
+${criteria
+  .map((criterion) => `- ${criterion.name}: ${criterion.specification}`)
+  .join("\n")}
+
+Evaluate only what is visible in the screenshot. Judge each criterion on its own, a failure of one criterion
+does not affect the verdict on the others.
+
+Respond with a JSON object with these fields:
+- criteria: list with one entry per criterion, in the order given, each with these fields:
+  - name: the name of the criterion, exactly as given
+  - verdict: "yes" if the UI satisfies the criterion, "no" if it doesn't
+  - confidence: number from 0.0 to 1.0, how confident you are in your verdict
+  - reasoning: your reasoning behind the decision
+  - failReason: if verdict is "no", a short explanation of why it fails, otherwise null
+- suggestions: list of suggestions for fixing the UI, empty if none
+
+Maintain a high bar for quality and accuracy in your evaluation.
+    `.trim();
+  }
+
+  /**
+   * Utility function to create the system prompt of an accessibility audit
+   * @param rules Rules of the rubric to audit
+   * @param facts What the browser knows about the elements in the screenshot
+   * @returns System prompt text
+   */
+  protected getA11yPrompt(
+    rules: Criterion[],
+    facts: A11yElementFacts[]
+  ): string {
+    return `
+You are an expert accessibility auditor. You will be given a screenshot of a user interface, a rubric of accessibility rules,
+and facts the browser measured about the elements in the screenshot: computed colors, contrast ratios, font sizes,
+rendered sizes, and ARIA attributes.
+Your task is to determine, for each rule separately, if the UI passes it.
+
+Rules:
+${rules.map((rule) => `- ${rule.name}: ${rule.specification}`).join("\n")}
+
+Element facts:
+${JSON.stringify(facts, null, 2)}
+
+Rely on the facts for measurable properties, such as contrast ratios and sizes, and on the screenshot for everything else,
+such as whether a state or error is told apart by color alone. A focus indicator can only be seen on the element marked
+as focused; when no element is focused, judge it from the outlines in the facts, where "none" on every interactive
+element is a warning sign. A rule without elements it applies to passes.
+
+Respond with a JSON object with these fields:
+- criteria: list with one entry per rule, in the order given, each with these fields:
+  - name: the name of the rule, exactly as given
+  - verdict: "yes" if the UI passes the rule, "no" if it doesn't
+  - confidence: number from 0.0 to 1.0, how confident you are in your verdict
+  - reasoning: your reasoning behind the decision
+  - failReason: if verdict is "no", a short explanation of the problem, otherwise null
+  - elements: the elements breaking the rule, as described in the facts, empty if none
+- suggestions: list of suggestions for fixing the problems, empty if none
+
+Only fail a rule for problems you can see or measure, and name the elements involved.
+    `.trim();
+  }
+
+  /**
+   * Utility function to create the system prompt of a data extraction
+   * @param shape Fields to extract and their types
+   * @returns System prompt text
+   */
+  protected getExtractionPrompt(shape: ExtractionShape): string {
+    return `
+You are an expert at reading user interfaces. You will be given a screenshot of a UI element.
+Your task is to read the requested fields off the screenshot.
+
+Fields and their types:
+${JSON.stringify(shape, null, 2)}
+
+Read only what is visible in the screenshot, exactly as it is written, and never guess.
+Use null for a single value that is not visible, and an empty list when no items of a list are visible.
+Respond with a JSON object with exactly these fields.
+    `.trim();
+  }
+
+  /**
+   * Utility function to create the system prompt of a flow evaluation
+   * @param specification Specification text describing the flow
+   * @returns System prompt text
+   */
+  protected getFlowPrompt(specification: string): string {
+    return `
+You are an expert UI evaluator. You will be given screenshots taken at consecutive steps of a user flow, in order,
+each labeled with what happened at that step, and a specification of the whole flow.
+Your task is to determine if the UI behaves as the specification describes across the steps.
+
+Specification:
+${specification}
+
+Evaluate only what is visible in the screenshots. Compare the steps with each other to judge transitions,
+such as elements appearing, disappearing, or changing between steps.
+
+Respond with a JSON object with these fields:
+- verdict: "yes" if the flow matches the specification, "no" if it doesn't
+- confidence: number from 0.0 to 1.0, how confident you are in your verdict
+- reasoning: your detailed reasoning behind the decision, going through the steps in order
+- failReason: if verdict is "no", a short explanation of why it fails, otherwise null
+- failedStep: if verdict is "no", the label of the first step where the UI breaks the specification, otherwise null
+- suggestions: list of suggestions for fixing the UI, empty if none
+
+Maintain a high bar for quality and accuracy in your evaluation.
+    `.trim();
+  }
+
+  /**
+   * Utility function to create the system prompt of a comparison against reference images
+   * @param specification Specification saying which differences are tolerated
+   * @returns System prompt text
+   */
+  protected getComparisonPrompt(specification: string): string {
+    return `
+You are an expert UI evaluator. You will be given a screenshot of the current UI, followed by one or more reference images,
+such as an earlier approved screenshot or a design mock, and a specification.
+Your task is to determine if the current screenshot is equivalent to the reference under the given specification.
+
+Specification:
+${specification}
+
+The specification says what must match and which differences are acceptable. Any difference it does not allow is a failure,
+but ignore differences it explicitly tolerates. Compare layout, spacing, colors, typography, text content, and visible elements.
+
+Respond with a JSON object with these fields:
+- verdict: "yes" if the current screenshot matches the reference under the specification, "no" if it doesn't
+- confidence: number from 0.0 to 1.0, how confident you are in your verdict
+- reasoning: your detailed reasoning behind the decision, naming the differences you found
+- failReason: if verdict is "no", a short description of the differences that are not allowed, otherwise null
+- suggestions: list of suggestions for fixing the UI, empty if none
 
 Maintain a high bar for quality and accuracy in your evaluation.
     `.trim();
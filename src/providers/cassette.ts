@@ -0,0 +1,274 @@
+/**
+ * Record/replay cassettes of provider HTTP traffic
+ * In record mode every request/response pair is saved to a cassette file,
+ * in replay mode the saved responses are served back without calling the API,
+ * so suites can run deterministically without API keys
+ */
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { CassetteOptions } from "../types/llm";
+import { LLMProviderError } from "./errors";
+import { ensureDirSync } from "../utils/fs-utils";
+
+/**
+ * A recorded request/response pair
+ */
+export interface CassetteInteraction {
+  /** The request, with images replaced by their hash and without credentials */
+  request: {
+    method: string;
+    url: string;
+    body: unknown;
+  };
+
+  /** The response as received */
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    body: string;
+  };
+}
+
+/**
+ * Contents of a cassette file
+ */
+export interface CassetteFile {
+  /** Format version of the file */
+  version: number;
+
+  /** Interactions in the order they were recorded */
+  interactions: CassetteInteraction[];
+}
+
+/**
+ * Thrown in replay mode when a request has no recorded response
+ * Not retried, re-record the cassette to fix it
+ */
+export class CassetteMismatchError extends LLMProviderError {
+  constructor(message: string) {
+    super(message, "invalid-request");
+    this.name = "CassetteMismatchError";
+  }
+}
+
+/** Response headers worth keeping, the ones the error handling reads */
+const RECORDED_HEADERS = ["content-type", "retry-after", "retry-after-ms"];
+
+/** Query parameters that carry credentials */
+const SECRET_QUERY_PARAMS = ["key", "api-key", "api_key"];
+
+/**
+ * Check whether a string is image data (data URL or long base64),
+ * or the placeholder of an image in a recorded request
+ * @param value String to check
+ * @returns True if it stands for an image
+ */
+function isImageData(value: string): boolean {
+  return (
+    value.startsWith("data:image/") ||
+    value.startsWith("<image sha256:") ||
+    (value.length > 256 && /^[A-Za-z0-9+/]+={0,2}$/.test(value))
+  );
+}
+
+/**
+ * Replace images in a request body, so cassettes stay small and reviewable
+ * @param value Request body or part of it
+ * @param replace Replacement for an image
+ * @returns Copy of the value with images replaced
+ */
+function replaceImages(
+  value: unknown,
+  replace: (image: string) => string
+): unknown {
+  if (typeof value === "string") {
+    return isImageData(value) ? replace(value) : value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => replaceImages(item, replace));
+  }
+
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        replaceImages(item, replace),
+      ])
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Remove credentials from a URL
+ * @param url Request URL
+ * @returns URL without secret query parameters
+ */
+function sanitizeUrl(url: string): string {
+  const parsed = new URL(url);
+
+  for (const param of SECRET_QUERY_PARAMS) {
+    parsed.searchParams.delete(param);
+  }
+
+  return parsed.toString();
+}
+
+/**
+ * Cassette of one spec file
+ */
+export class Cassette {
+  /** Path of the cassette file and mode */
+  private options: CassetteOptions;
+
+  /** Recorded or loaded interactions */
+  private interactions: CassetteInteraction[] = [];
+
+  /** Indexes of the interactions already served in replay mode */
+  private served: Set<number> = new Set();
+
+  /**
+   * Creates a cassette, loading the file in replay mode
+   * @param options Path of the cassette file and mode
+   */
+  constructor(options: CassetteOptions) {
+    this.options = options;
+
+    if (options.mode === "replay") {
+      if (!fs.existsSync(options.path)) {
+        throw new CassetteMismatchError(
+          `No vibe cassette at ${options.path}. Record it first with VIBE_CASSETTE=record`
+        );
+      }
+
+      const file = JSON.parse(
+        fs.readFileSync(options.path, "utf8")
+      ) as CassetteFile;
+      this.interactions = file.interactions || [];
+    }
+  }
+
+  /**
+   * Serve the recorded response of a request
+   * Identical requests are served in recorded order, the last one is reused
+   * when a request is repeated more often than it was recorded
+   * @param url Request URL
+   * @param body Request body
+   * @returns Recorded response
+   * @throws CassetteMismatchError if the request was never recorded
+   */
+  replay(url: string, body: unknown): Response {
+    const key = Cassette.getMatchKey(url, body);
+    const matches = this.interactions
+      .map((interaction, index) => ({ interaction, index }))
+      .filter(
+        ({ interaction }) =>
+          Cassette.getMatchKey(
+            interaction.request.url,
+            interaction.request.body
+          ) === key
+      );
+
+    const match =
+      matches.find(({ index }) => !this.served.has(index)) ||
+      matches[matches.length - 1];
+
+    if (!match) {
+      throw new CassetteMismatchError(
+        `No recorded response in ${this.options.path} for POST ${sanitizeUrl(
+          url
+        )}. The request changed since the cassette was recorded, re-record it with VIBE_CASSETTE=record`
+      );
+    }
+
+    this.served.add(match.index);
+
+    const { status, headers, body: responseBody } = match.interaction.response;
+    return new Response(responseBody, { status, headers });
+  }
+
+  /**
+   * Save a request/response pair
+   * @param url Request URL
+   * @param body Request body
+   * @param response Response received
+   * @returns Equivalent response, since the original body has been read
+   */
+  async record(
+    url: string,
+    body: unknown,
+    response: Response
+  ): Promise<Response> {
+    const responseBody = await response.text();
+    const headers: Record<string, string> = {};
+
+    for (const name of RECORDED_HEADERS) {
+      const value = response.headers.get(name);
+      if (value !== null) {
+        headers[name] = value;
+      }
+    }
+
+    this.interactions.push({
+      request: {
+        method: "POST",
+        url: sanitizeUrl(url),
+        body: replaceImages(
+          body,
+          (image) =>
+            `<image sha256:${crypto
+              .createHash("sha256")
+              .update(image)
+              .digest("hex")}>`
+        ),
+      },
+      response: { status: response.status, headers, body: responseBody },
+    });
+
+    const file: CassetteFile = { version: 1, interactions: this.interactions };
+    ensureDirSync(path.dirname(this.options.path));
+    fs.writeFileSync(this.options.path, JSON.stringify(file, null, 2) + "\n");
+
+    return new Response(responseBody, { status: response.status, headers });
+  }
+
+  /**
+   * Compute the key a request is matched by
+   * Images are left out, so screenshots that differ slightly between
+   * machines (fonts, anti-aliasing) still match their recording
+   * @param url Request URL
+   * @param body Request body, raw or as recorded
+   * @returns Match key
+   */
+  private static getMatchKey(url: string, body: unknown): string {
+    return JSON.stringify({
+      url: sanitizeUrl(url),
+      body: replaceImages(body, () => "<image>"),
+    });
+  }
+}
+
+/** Open cassettes by path, so the checks of a spec run share one cassette */
+const cassettes: Map<string, { run?: string; cassette: Cassette }> = new Map();
+
+/**
+ * Get the cassette for a file, creating it on first use in a spec run
+ * A cassette recorded in this run starts empty and replaces the old file
+ * @param options Path of the cassette file, mode and spec run
+ * @returns The cassette
+ */
+export function openCassette(options: CassetteOptions): Cassette {
+  const id = `${options.mode}:${path.resolve(options.path)}`;
+  const open = cassettes.get(id);
+
+  if (open && open.run === options.run) {
+    return open.cassette;
+  }
+
+  const cassette = new Cassette(options);
+  cassettes.set(id, { run: options.run, cassette });
+  return cassette;
+}
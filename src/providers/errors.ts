@@ -0,0 +1,256 @@
+/**
+ * Typed errors for provider failures
+ * Lets the retry policy, the fallback chain and the failure message of the
+ * vibeCheck command tell an expired key from an outage
+ */
+import { LLMUsage, ProviderErrorInfo, ProviderErrorType } from "../types/llm";
+
+/**
+ * Base class for all provider failures
+ */
+export class LLMProviderError extends Error {
+  /** Class of the failure */
+  readonly type: ProviderErrorType;
+
+  /** HTTP status code, if the failure came from an HTTP response */
+  readonly status?: number;
+
+  /** Delay requested by the server before retrying, in milliseconds */
+  readonly retryAfterMs?: number;
+
+  /** Number of attempts made before giving up, set by the retry loop */
+  attempts?: number;
+
+  /** Usage of the requests that were answered before the failure */
+  usage?: LLMUsage[];
+
+  constructor(
+    message: string,
+    type: ProviderErrorType = "unknown",
+    details: { status?: number; retryAfterMs?: number } = {}
+  ) {
+    super(message);
+    this.name = "LLMProviderError";
+    this.type = type;
+    this.status = details.status;
+    this.retryAfterMs = details.retryAfterMs;
+  }
+}
+
+/**
+ * The API key is missing, invalid, or lacks permissions (401, 403)
+ */
+export class AuthenticationError extends LLMProviderError {
+  constructor(message: string, status?: number) {
+    super(message, "auth", { status });
+    this.name = "AuthenticationError";
+  }
+}
+
+/**
+ * The provider is rate limiting requests (429)
+ */
+export class RateLimitError extends LLMProviderError {
+  constructor(message: string, status = 429, retryAfterMs?: number) {
+    super(message, "rate-limit", { status, retryAfterMs });
+    this.name = "RateLimitError";
+  }
+}
+
+/**
+ * The provider failed on its side (5xx, overloaded)
+ */
+export class ServerError extends LLMProviderError {
+  constructor(message: string, status?: number, retryAfterMs?: number) {
+    super(message, "server", { status, retryAfterMs });
+    this.name = "ServerError";
+  }
+}
+
+/**
+ * The request did not complete within the configured timeout
+ */
+export class TimeoutError extends LLMProviderError {
+  constructor(message: string) {
+    super(message, "timeout");
+    this.name = "TimeoutError";
+  }
+}
+
+/**
+ * The provider could not be reached (DNS, connection refused, reset)
+ */
+export class NetworkError extends LLMProviderError {
+  constructor(message: string) {
+    super(message, "network");
+    this.name = "NetworkError";
+  }
+}
+
+/**
+ * The provider rejected the request itself (400, 404, 422), retrying won't help
+ */
+export class InvalidRequestError extends LLMProviderError {
+  constructor(message: string, status?: number) {
+    super(message, "invalid-request", { status });
+    this.name = "InvalidRequestError";
+  }
+}
+
+/**
+ * The model's answer cannot be turned into the expected structure
+ */
+export class MalformedResponseError extends LLMProviderError {
+  /** The output that failed to parse, as text */
+  readonly output: string;
+
+  constructor(message: string, output: unknown) {
+    super(message, "malformed-response");
+    this.name = "MalformedResponseError";
+    this.output = typeof output === "string" ? output : JSON.stringify(output);
+  }
+}
+
+/**
+ * Parse a Retry-After style value into milliseconds
+ * @param headers Response headers
+ * @param body Parsed error body, checked for Google's RetryInfo detail
+ * @returns Delay in milliseconds, or undefined if the server did not ask for one
+ */
+export function parseRetryAfter(
+  headers: Headers,
+  body?: any
+): number | undefined {
+  // Non-standard millisecond header, sent by OpenAI
+  const retryAfterMs = parseFloat(headers.get("retry-after-ms") || "");
+  if (isFinite(retryAfterMs) && retryAfterMs >= 0) {
+    return retryAfterMs;
+  }
+
+  const retryAfter = headers.get("retry-after");
+  if (retryAfter) {
+    // Either a number of seconds or an HTTP date
+    const seconds = Number(retryAfter);
+    if (isFinite(seconds) && seconds >= 0) {
+      return seconds * 1000;
+    }
+
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+
+  // Google APIs put the delay in the error details, e.g. "retryDelay": "13s"
+  const details = body?.error?.details;
+  if (Array.isArray(details)) {
+    const retryDelay = details.find(
+      (detail: any) => typeof detail?.retryDelay === "string"
+    )?.retryDelay;
+    const seconds = parseFloat(retryDelay || "");
+    if (isFinite(seconds)) {
+      return seconds * 1000;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Create a typed error from a failed HTTP response
+ * @param providerName Name of the provider, for the message
+ * @param response Failed HTTP response
+ * @param body Parsed error body, if any
+ * @returns Typed provider error
+ */
+export function errorFromResponse(
+  providerName: string,
+  response: Response,
+  body: any
+): LLMProviderError {
+  const status = response.status;
+  let message = `[${providerName}] API request failed with status ${status}`;
+
+  if (body?.error) {
+    message += `: ${JSON.stringify(body.error)}`;
+  }
+
+  const retryAfterMs = parseRetryAfter(response.headers, body);
+
+  if (status === 401 || status === 403) {
+    return new AuthenticationError(message, status);
+  }
+
+  if (status === 429) {
+    return new RateLimitError(message, status, retryAfterMs);
+  }
+
+  // 529 is Anthropic's "overloaded"
+  if (status >= 500) {
+    return new ServerError(message, status, retryAfterMs);
+  }
+
+  if (status === 408) {
+    return new TimeoutError(message);
+  }
+
+  return new InvalidRequestError(message, status);
+}
+
+/**
+ * Wrap any error as a provider error, keeping typed errors as they are
+ * @param error Error thrown while evaluating
+ * @returns Provider error
+ */
+export function toProviderError(error: unknown): LLMProviderError {
+  if (error instanceof LLMProviderError) {
+    return error;
+  }
+
+  const wrapped = new LLMProviderError(
+    error instanceof Error ? error.message : String(error)
+  );
+
+  if (error instanceof Error && error.stack) {
+    wrapped.stack = error.stack;
+  }
+
+  return wrapped;
+}
+
+/**
+ * Describe a provider failure in a serializable form
+ * @param error Error thrown while evaluating
+ * @returns Failure class, message, status and attempts
+ */
+export function getErrorInfo(error: unknown): ProviderErrorInfo {
+  const providerError = toProviderError(error);
+
+  return {
+    type: providerError.type,
+    message: providerError.message,
+    status: providerError.status,
+    attempts: providerError.attempts,
+    usage: providerError.usage,
+  };
+}
+
+/**
+ * Attach the usage of answered requests to a failure, so their tokens are
+ * still counted even though the evaluation failed
+ * @param error Error thrown while evaluating
+ * @param usage Usage of the requests sent before the failure
+ * @returns Provider error carrying the usage of the requests that were answered
+ */
+export function withUsage(error: unknown, usage: LLMUsage[]): LLMProviderError {
+  const providerError = toProviderError(error);
+  const answered = usage.filter(
+    (item) => item.inputTokens > 0 || item.outputTokens > 0
+  );
+
+  if (answered.length > 0) {
+    providerError.usage = [...(providerError.usage || []), ...answered];
+  }
+
+  return providerError;
+}
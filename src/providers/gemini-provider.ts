@@ -0,0 +1,165 @@
+/**
+ * Google Gemini provider implementation for the LLM service
+ * Uses Gemini's multimodal capabilities to evaluate images
+ */
+import { LLMProviderConfig } from "../types/llm";
+import {
+  BaseLLMProvider,
+  StructuredRequest,
+  StructuredResponse,
+} from "./base-provider";
+import { AuthenticationError } from "./errors";
+import { ENV_VARS, getApiKey } from "../utils/env";
+
+/**
+ * Configuration options specific to the Gemini provider
+ */
+export interface GeminiProviderConfig extends LLMProviderConfig {
+  /** Gemini model to use, default is gemini-2.0-flash */
+  model?: string;
+
+  /** Base URL of the Generative Language API, default is https://generativelanguage.googleapis.com/v1beta */
+  baseUrl?: string;
+}
+
+/**
+ * Google Gemini implementation of the LLM provider
+ * Uses Gemini's multimodal capabilities to evaluate images
+ */
+export class GeminiProvider extends BaseLLMProvider {
+  /** Default model to use for Gemini API calls */
+  private static readonly DEFAULT_MODEL = "gemini-2.0-flash";
+
+  /** Default base URL for Gemini API calls */
+  private static readonly DEFAULT_BASE_URL =
+    "https://generativelanguage.googleapis.com/v1beta";
+
+  /** Name of this provider */
+  protected providerName = "Gemini";
+
+  /**
+   * Creates a new instance of the Gemini provider
+   * @param config Configuration for this provider
+   */
+  constructor(config: GeminiProviderConfig) {
+    super(config);
+  }
+
+  /**
+   * Validates the Gemini provider configuration
+   * @param config Configuration to validate
+   * @returns Validated configuration
+   */
+  protected validateConfig(config: GeminiProviderConfig): GeminiProviderConfig {
+    // Call parent validation for common fields
+    const validatedConfig = super.validateConfig(
+      config
+    ) as GeminiProviderConfig;
+
+    // Set Gemini-specific defaults
+    validatedConfig.model =
+      validatedConfig.model || GeminiProvider.DEFAULT_MODEL;
+    validatedConfig.baseUrl = (
+      validatedConfig.baseUrl || GeminiProvider.DEFAULT_BASE_URL
+    ).replace(/\/+$/, "");
+
+    return validatedConfig;
+  }
+
+  /**
+   * Gemini-specific transport for a structured request
+   * Uses a JSON response schema so the answer follows the requested structure
+   * @param request Structured request to send
+   * @returns Model output and raw API response
+   */
+  protected async sendStructuredRequest(
+    request: StructuredRequest
+  ): Promise<StructuredResponse> {
+    const config = this.config as GeminiProviderConfig;
+
+    // Replayed requests never reach the API, so no key is needed
+    const replaying = this.isReplaying(request.options);
+    const apiKey =
+      this.config.apiKey ||
+      (replaying ? "" : getApiKey(ENV_VARS.GEMINI_API_KEY) || "");
+    if (!apiKey && !replaying) {
+      throw new AuthenticationError(
+        "No Gemini API key provided. Please check your environment variables."
+      );
+    }
+
+    const model = config.model || GeminiProvider.DEFAULT_MODEL;
+    const parts: any[] = [{ text: request.userText }];
+
+    for (const image of request.images) {
+      if (image.label) {
+        parts.push({ text: image.label });
+      }
+
+      parts.push({
+        inline_data: {
+          mime_type: "image/png",
+          data: image.data,
+        },
+      });
+    }
+
+    try {
+      // Call the Gemini API
+      const data = await this.postJson(
+        `${config.baseUrl}/models/${model}:generateContent`,
+        {
+          "Content-Type": "application/json",
+          "x-goog-api-key": apiKey,
+        },
+        {
+          systemInstruction: {
+            parts: [{ text: request.systemPrompt }],
+          },
+          contents: [
+            {
+              role: "user",
+              parts,
+            },
+          ],
+          generationConfig: {
+            temperature: 0.2,
+            maxOutputTokens: 1500,
+            responseMimeType: "application/json",
+            responseJsonSchema: request.schema,
+            ...(request.options.modelParameters || {}),
+          },
+        },
+        request.options
+      );
+
+      const responseParts = data?.candidates?.[0]?.content?.parts;
+
+      return {
+        output: Array.isArray(responseParts)
+          ? responseParts
+              .map((part: any) => part.text)
+              .filter(Boolean)
+              .join("")
+          : "",
+        raw: data,
+        usage: data?.usageMetadata && {
+          inputTokens: data.usageMetadata.promptTokenCount || 0,
+          outputTokens: data.usageMetadata.candidatesTokenCount || 0,
+        },
+        model: data?.modelVersion || model,
+      };
+    } catch (error) {
+      console.error("[Gemini] API error:", error);
+
+      // Special handling for authentication errors
+      if (error instanceof AuthenticationError) {
+        console.error(
+          "[Gemini] Authentication error: Invalid API key. Please check your GEMINI_API_KEY."
+        );
+      }
+
+      throw error;
+    }
+  }
+}
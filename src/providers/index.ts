@@ -4,18 +4,44 @@ export * from "../types/llm";
 // Export the base provider
 export * from "./base-provider";
 
+// Export the shared response parsing helpers
+export * from "./response-parser";
+
+// Export the typed provider errors and the retry policy helpers
+export * from "./errors";
+export * from "./retry-policy";
+
+// Export the record/replay cassettes
+export * from "./cassette";
+
 // Export the specific providers
 export * from "./anthropic-provider";
 export * from "./openai-provider";
+export * from "./azure-openai-provider";
+export * from "./openai-compatible-provider";
+export * from "./gemini-provider";
+export * from "./local-provider";
+export * from "./mock-provider";
 
 // Export a factory function for creating providers
-import { LLMProviderConfig, LLMProviderType } from "../types/llm";
+import { LLMProvider, LLMProviderConfig, LLMProviderType } from "../types/llm";
 import { ENV_VARS } from "../utils/env";
 import {
   AnthropicProvider,
   AnthropicProviderConfig,
 } from "./anthropic-provider";
 import { OpenAIProvider, OpenAIProviderConfig } from "./openai-provider";
+import {
+  AzureOpenAIProvider,
+  AzureOpenAIProviderConfig,
+} from "./azure-openai-provider";
+import {
+  OpenAICompatibleProvider,
+  OpenAICompatibleProviderConfig,
+} from "./openai-compatible-provider";
+import { GeminiProvider, GeminiProviderConfig } from "./gemini-provider";
+import { LocalProvider, LocalProviderConfig } from "./local-provider";
+import { MockProvider, MockProviderConfig } from "./mock-provider";
 
 /**
  * Factory function to create an LLM provider instance based on the type
@@ -26,7 +52,7 @@ import { OpenAIProvider, OpenAIProviderConfig } from "./openai-provider";
 export function createLLMProvider(
   type: LLMProviderType,
   config: LLMProviderConfig
-) {
+): LLMProvider {
   // Apply environment variables to config if not explicitly provided
   const enhancedConfig = { ...config };
 
@@ -39,6 +65,15 @@ export function createLLMProvider(
       case "openai":
         enhancedConfig.apiKeyEnvVar = ENV_VARS.OPENAI_API_KEY;
         break;
+      case "azure-openai":
+        enhancedConfig.apiKeyEnvVar = ENV_VARS.AZURE_OPENAI_API_KEY;
+        break;
+      case "openai-compatible":
+        enhancedConfig.apiKeyEnvVar = ENV_VARS.OPENAI_COMPATIBLE_API_KEY;
+        break;
+      case "gemini":
+        enhancedConfig.apiKeyEnvVar = ENV_VARS.GEMINI_API_KEY;
+        break;
     }
   }
 
@@ -47,11 +82,28 @@ export function createLLMProvider(
       return new AnthropicProvider(enhancedConfig as AnthropicProviderConfig);
     case "openai":
       return new OpenAIProvider(enhancedConfig as OpenAIProviderConfig);
-    case "custom":
-      // For custom providers, the caller should handle instantiation directly
-      throw new Error(
-        "Custom providers should be instantiated directly, not through the factory"
+    case "azure-openai":
+      return new AzureOpenAIProvider(
+        enhancedConfig as AzureOpenAIProviderConfig
       );
+    case "openai-compatible":
+      return new OpenAICompatibleProvider(
+        enhancedConfig as OpenAICompatibleProviderConfig
+      );
+    case "gemini":
+      return new GeminiProvider(enhancedConfig as GeminiProviderConfig);
+    case "local":
+      return new LocalProvider(enhancedConfig as LocalProviderConfig);
+    case "mock":
+      return new MockProvider(enhancedConfig as MockProviderConfig);
+    case "custom":
+      // Custom providers are created by the factory supplied in their config
+      if (typeof config.factory !== "function") {
+        throw new Error(
+          "Custom providers need a config.factory function, or can be passed to setupCypressVibeCheck(on, config, { providers })"
+        );
+      }
+      return config.factory(enhancedConfig);
     default:
       throw new Error(`Unknown LLM provider type: ${type}`);
   }
@@ -0,0 +1,208 @@
+/**
+ * Local model provider implementation for the LLM service
+ * Talks to a vision model hosted on the local machine (Ollama, llama.cpp server)
+ * so screenshots never leave the machine running the tests
+ */
+import { LLMProviderConfig } from "../types/llm";
+import {
+  BaseLLMProvider,
+  StructuredRequest,
+  StructuredResponse,
+} from "./base-provider";
+import { NetworkError } from "./errors";
+import { ENV_VARS, getEnv } from "../utils/env";
+
+/**
+ * Configuration options specific to the local model provider
+ */
+export interface LocalProviderConfig extends LLMProviderConfig {
+  /** Local vision model to use, default is llava */
+  model?: string;
+
+  /** Base URL of the local model server, default is http://localhost:11434 */
+  baseUrl?: string;
+
+  /**
+   * API flavour spoken by the server:
+   * - "ollama" uses Ollama's native /api/chat endpoint
+   * - "openai" uses the OpenAI-compatible /v1/chat/completions endpoint (llama.cpp server, Ollama)
+   */
+  api?: "ollama" | "openai";
+}
+
+/**
+ * Local model implementation of the LLM provider
+ * Sends screenshots to a locally hosted vision model over HTTP
+ */
+export class LocalProvider extends BaseLLMProvider {
+  /** Default model to use for local API calls */
+  private static readonly DEFAULT_MODEL = "llava";
+
+  /** Default base URL of the local model server (Ollama's default port) */
+  private static readonly DEFAULT_BASE_URL = "http://localhost:11434";
+
+  /** Name of this provider */
+  protected providerName = "Local";
+
+  /**
+   * Creates a new instance of the local model provider
+   * @param config Configuration for this provider
+   */
+  constructor(config: LocalProviderConfig) {
+    super(config);
+  }
+
+  /**
+   * Local model servers usually run without authentication
+   * @returns False, an API key is optional
+   */
+  protected requiresApiKey(): boolean {
+    return false;
+  }
+
+  /**
+   * Validates the local provider configuration
+   * @param config Configuration to validate
+   * @returns Validated configuration
+   */
+  protected validateConfig(config: LocalProviderConfig): LocalProviderConfig {
+    // Call parent validation for common fields
+    const validatedConfig = super.validateConfig(config) as LocalProviderConfig;
+
+    // Set local-specific defaults
+    validatedConfig.model =
+      validatedConfig.model ||
+      getEnv(ENV_VARS.VIBE_LOCAL_MODEL, LocalProvider.DEFAULT_MODEL);
+    validatedConfig.baseUrl = (
+      validatedConfig.baseUrl ||
+      getEnv(ENV_VARS.VIBE_LOCAL_BASE_URL, LocalProvider.DEFAULT_BASE_URL)!
+    ).replace(/\/+$/, "");
+    validatedConfig.api = validatedConfig.api || "ollama";
+
+    return validatedConfig;
+  }
+
+  /**
+   * Local-specific transport for a structured request
+   * Passes the schema as Ollama's format, or as an OpenAI json_schema response format
+   * @param request Structured request to send
+   * @returns Model output and raw API response
+   */
+  protected async sendStructuredRequest(
+    request: StructuredRequest
+  ): Promise<StructuredResponse> {
+    const config = this.config as LocalProviderConfig;
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+
+    // Some servers (e.g. llama.cpp started with --api-key) expect a bearer token
+    if (config.apiKey) {
+      headers.Authorization = `Bearer ${config.apiKey}`;
+    }
+
+    const url =
+      config.api === "openai"
+        ? `${config.baseUrl}/v1/chat/completions`
+        : `${config.baseUrl}/api/chat`;
+
+    let body: Record<string, any>;
+
+    if (config.api === "openai") {
+      const userContent: any[] = [{ type: "text", text: request.userText }];
+
+      for (const image of request.images) {
+        if (image.label) {
+          userContent.push({ type: "text", text: image.label });
+        }
+
+        userContent.push({
+          type: "image_url",
+          image_url: { url: `data:image/png;base64,${image.data}` },
+        });
+      }
+
+      body = {
+        model: config.model,
+        messages: [
+          { role: "system", content: request.systemPrompt },
+          { role: "user", content: userContent },
+        ],
+        response_format: {
+          type: "json_schema",
+          json_schema: {
+            name: request.schemaName,
+            strict: true,
+            schema: request.schema,
+          },
+        },
+        max_tokens: 1500,
+        temperature: 0.2,
+        ...(request.options.modelParameters || {}),
+      };
+    } else {
+      // Ollama attaches images to a message without positions, so labels
+      // are listed in the message text in image order
+      const labels = request.images
+        .map((image, index) =>
+          image.label ? `Image ${index + 1}: ${image.label}` : ""
+        )
+        .filter(Boolean);
+
+      body = {
+        model: config.model,
+        messages: [
+          { role: "system", content: request.systemPrompt },
+          {
+            role: "user",
+            content: [request.userText, ...labels].join("\n"),
+            images: request.images.map((image) => image.data),
+          },
+        ],
+        stream: false,
+        format: request.schema,
+        options: {
+          temperature: 0.2,
+          num_predict: 1500,
+          ...(request.options.modelParameters || {}),
+        },
+      };
+    }
+
+    try {
+      // Call the local model server
+      const data = await this.postJson(url, headers, body, request.options);
+
+      return {
+        output:
+          (config.api === "openai"
+            ? data?.choices?.[0]?.message?.content
+            : data?.message?.content) || "",
+        raw: data,
+        // Ollama reports prompt_eval_count and eval_count instead of a usage block
+        usage:
+          config.api === "openai"
+            ? data?.usage && {
+                inputTokens: data.usage.prompt_tokens || 0,
+                outputTokens: data.usage.completion_tokens || 0,
+              }
+            : {
+                inputTokens: data?.prompt_eval_count || 0,
+                outputTokens: data?.eval_count || 0,
+              },
+        model: data?.model || config.model,
+      };
+    } catch (error) {
+      console.error("[Local] API error:", error);
+
+      // Connection failures usually mean the local server is not running
+      if (error instanceof NetworkError) {
+        console.error(
+          `[Local] Could not reach ${url}. Is the local model server running?`
+        );
+      }
+
+      throw error;
+    }
+  }
+}
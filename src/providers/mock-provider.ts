@@ -0,0 +1,318 @@
+/**
+ * Mock provider implementation for the LLM service
+ * Returns deterministic responses from fixture rules, without calling any model
+ */
+import fs from "fs";
+import path from "path";
+import {
+  LLMProviderConfig,
+  LLMResponse,
+  EvaluateOptions,
+  ExtractionResponse,
+  ExtractionShape,
+} from "../types/llm";
+import {
+  BaseLLMProvider,
+  StructuredRequest,
+  StructuredResponse,
+} from "./base-provider";
+import {
+  normalizeChecklistResponse,
+  normalizeFlowResponse,
+  normalizeLLMResponse,
+  parseExtraction,
+} from "./response-parser";
+import { ENV_VARS, getEnv } from "../utils/env";
+
+/**
+ * A single rule of a mock fixture
+ * Rules are checked in order and the first one whose matchers all match is used
+ */
+export interface MockRule {
+  /**
+   * Matches the specification text. Plain strings match case-insensitively as a
+   * substring, strings written as "/pattern/flags" are used as regular expressions
+   */
+  specification?: string;
+
+  /** Matches the screenshot file name, with the same syntax as specification */
+  screenshot?: string;
+
+  /**
+   * Matches the file name of the first reference image, with the same syntax
+   * as specification. Rules with it only match comparisons
+   */
+  reference?: string;
+
+  /** Response to return, missing fields default to a confident pass */
+  response?: Partial<LLMResponse>;
+
+  /**
+   * Data yielded by cy.vibeExtract. Rules with it only match extractions,
+   * their specification matcher is checked against the requested field names
+   */
+  data?: Record<string, unknown>;
+
+  /** When set, the evaluation fails with this error message instead */
+  error?: string;
+
+  /** Simulated latency in milliseconds before responding */
+  delayMs?: number;
+}
+
+/**
+ * Contents of a mock fixture file
+ */
+export interface MockFixture {
+  /** Rules checked in order */
+  rules?: MockRule[];
+
+  /** Response used when no rule matches. Without it, unmatched checks fail */
+  default?: Partial<LLMResponse>;
+}
+
+/**
+ * Configuration options specific to the mock provider
+ */
+export interface MockProviderConfig extends LLMProviderConfig {
+  /** Path to the JSON fixture file, default is cypress/fixtures/vibe-mock.json */
+  fixturePath?: string;
+
+  /** Inline rules, checked before the rules of the fixture file */
+  rules?: MockRule[];
+
+  /** Take part in the evaluation cache, e.g. to test caching. Default is false */
+  cacheable?: boolean;
+}
+
+/**
+ * Mock implementation of the LLM provider
+ * Useful for fast, key-less runs of suites that use cy.vibeCheck
+ */
+export class MockProvider extends BaseLLMProvider {
+  /** Default location of the fixture file, relative to the working directory */
+  private static readonly DEFAULT_FIXTURE_PATH =
+    "cypress/fixtures/vibe-mock.json";
+
+  /** Name of this provider */
+  protected providerName = "Mock";
+
+  /** Fixture edits apply right away, so answers are not cached by default */
+  readonly cacheable: boolean;
+
+  /**
+   * Creates a new instance of the mock provider
+   * @param config Configuration for this provider
+   */
+  constructor(config: MockProviderConfig) {
+    super(config);
+    this.cacheable = !!config.cacheable;
+  }
+
+  /**
+   * The mock provider never calls an API
+   * @returns False, no API key is needed
+   */
+  protected requiresApiKey(): boolean {
+    return false;
+  }
+
+  /**
+   * Validates the mock provider configuration
+   * @param config Configuration to validate
+   * @returns Validated configuration
+   */
+  protected validateConfig(config: MockProviderConfig): MockProviderConfig {
+    // Call parent validation for common fields
+    const validatedConfig = super.validateConfig(config) as MockProviderConfig;
+
+    // Set mock-specific defaults
+    validatedConfig.fixturePath =
+      validatedConfig.fixturePath ||
+      getEnv(ENV_VARS.VIBE_MOCK_FIXTURE, MockProvider.DEFAULT_FIXTURE_PATH);
+    validatedConfig.rules = validatedConfig.rules || [];
+
+    return validatedConfig;
+  }
+
+  /**
+   * Reads the fixture file, fresh on every call so edits apply without a restart
+   * @returns Parsed fixture, or an empty fixture if the file does not exist
+   */
+  private loadFixture(): MockFixture {
+    const config = this.config as MockProviderConfig;
+    const fixturePath = path.resolve(process.cwd(), config.fixturePath!);
+
+    if (!fs.existsSync(fixturePath)) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(fixturePath, "utf8")) as MockFixture;
+    } catch (error) {
+      throw new Error(
+        `Invalid mock fixture at ${fixturePath}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  /**
+   * Checks a rule matcher against a value
+   * @param matcher Substring or "/pattern/flags" regular expression
+   * @param value Value to test
+   * @returns True if the matcher is absent or matches
+   */
+  private matches(matcher: string | undefined, value: string): boolean {
+    if (matcher === undefined) {
+      return true;
+    }
+
+    const regexMatch = matcher.match(/^\/(.*)\/([a-z]*)$/);
+    if (regexMatch) {
+      return new RegExp(regexMatch[1], regexMatch[2]).test(value);
+    }
+
+    return value.toLowerCase().includes(matcher.toLowerCase());
+  }
+
+  /**
+   * Mock implementation for evaluating a screenshot
+   * @param screenshotPath Path to the screenshot file
+   * @param specification Text specification to evaluate against
+   * @param options Additional options for the evaluation
+   * @returns Response of the first matching rule
+   */
+  protected async evaluateScreenshotInternal(
+    screenshotPath: string,
+    specification: string,
+    options: EvaluateOptions
+  ): Promise<LLMResponse> {
+    const config = this.config as MockProviderConfig;
+    const fixture = this.loadFixture();
+    const rules = [...(config.rules || []), ...(fixture.rules || [])];
+    const screenshotName = path.basename(screenshotPath);
+    const referencePath = options.referenceImages?.[0]?.path;
+
+    const rule = rules.find(
+      (candidate) =>
+        candidate.data === undefined &&
+        this.matches(candidate.specification, specification) &&
+        this.matches(candidate.screenshot, screenshotName) &&
+        (candidate.reference === undefined ||
+          (referencePath !== undefined &&
+            this.matches(candidate.reference, path.basename(referencePath))))
+    );
+
+    if (rule?.delayMs) {
+      await new Promise((resolve) => setTimeout(resolve, rule.delayMs));
+    }
+
+    if (rule?.error) {
+      throw new Error(rule.error);
+    }
+
+    const response = rule ? rule.response || {} : fixture.default;
+
+    if (!response) {
+      throw new Error(
+        `No mock rule matched specification "${specification}" (screenshot: ${screenshotName}) and the fixture has no default response`
+      );
+    }
+
+    const output = {
+      verdict: "yes",
+      confidence: 1,
+      reasoning: "Mock response",
+      ...response,
+    };
+
+    // Run the canned answer through the same validation as real model output
+    return {
+      ...(options.criteria
+        ? normalizeChecklistResponse(
+            {
+              // Criteria the rule does not answer get its overall verdict
+              criteria: options.criteria.map((criterion) => ({
+                name: criterion.name,
+                verdict: output.verdict,
+                confidence: output.confidence,
+                reasoning: output.reasoning,
+                failReason: output.failReason,
+                ...output.criteria?.find(
+                  (answer) => answer.name === criterion.name
+                ),
+              })),
+              suggestions: output.suggestions,
+            },
+            options.criteria
+          )
+        : options.flowSteps
+          ? normalizeFlowResponse(
+              output,
+              options.flowSteps.map((step) => step.label)
+            )
+          : normalizeLLMResponse(output)),
+      rawResponse: options.includeRawResponse ? { rule } : undefined,
+    };
+  }
+
+  /**
+   * Mock implementation for reading data off a screenshot
+   * @param screenshotPath Path to the screenshot file
+   * @param shape Fields to extract and their types
+   * @param options Additional options for the extraction
+   * @returns Data of the first matching rule
+   */
+  protected async extractDataInternal(
+    screenshotPath: string,
+    shape: ExtractionShape,
+    options: EvaluateOptions
+  ): Promise<ExtractionResponse> {
+    const config = this.config as MockProviderConfig;
+    const fixture = this.loadFixture();
+    const rules = [...(config.rules || []), ...(fixture.rules || [])];
+    const screenshotName = path.basename(screenshotPath);
+    const fields = Object.keys(shape).join(", ");
+
+    const rule = rules.find(
+      (candidate) =>
+        (candidate.data !== undefined || candidate.error !== undefined) &&
+        this.matches(candidate.specification, fields) &&
+        this.matches(candidate.screenshot, screenshotName)
+    );
+
+    if (rule?.delayMs) {
+      await new Promise((resolve) => setTimeout(resolve, rule.delayMs));
+    }
+
+    if (rule?.error) {
+      throw new Error(rule.error);
+    }
+
+    if (!rule?.data) {
+      throw new Error(
+        `No mock rule with data matched fields ${fields} (screenshot: ${screenshotName})`
+      );
+    }
+
+    // Run the canned data through the same validation as real model output
+    return {
+      data: parseExtraction(rule.data, shape),
+      rawResponse: options.includeRawResponse ? { rule } : undefined,
+    };
+  }
+
+  /**
+   * The mock provider answers from fixture rules, never from a model
+   * @param request Structured request
+   */
+  protected async sendStructuredRequest(
+    request: StructuredRequest
+  ): Promise<StructuredResponse> {
+    throw new Error(
+      `The mock provider cannot answer "${request.schemaName}" requests`
+    );
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * OpenAI-compatible provider implementation for the LLM service
+ * Targets any server speaking the OpenAI chat completions protocol
+ * (LiteLLM, vLLM, LM Studio, internal gateways, local fake servers)
+ */
+import { ENV_VARS, getEnv } from "../utils/env";
+import { OpenAIProvider, OpenAIProviderConfig } from "./openai-provider";
+
+/**
+ * Configuration options specific to the OpenAI-compatible provider
+ */
+export interface OpenAICompatibleProviderConfig extends OpenAIProviderConfig {
+  /** Base URL of the API, e.g. http://localhost:4000/v1. /chat/completions is appended */
+  baseUrl?: string;
+
+  /** Extra HTTP headers sent with every request */
+  headers?: Record<string, string>;
+
+  /**
+   * How the API key is sent:
+   * - "bearer" sends "Authorization: Bearer <key>" (default)
+   * - "api-key" sends the key as-is in the header named by authHeader
+   * - "none" sends no credentials
+   */
+  authScheme?: "bearer" | "api-key" | "none";
+
+  /** Header used by the "api-key" auth scheme, default is api-key */
+  authHeader?: string;
+}
+
+/**
+ * OpenAI-compatible implementation of the LLM provider
+ * Reuses the OpenAI request and response handling against a configurable server
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  /** Name of this provider */
+  protected providerName = "OpenAI-compatible";
+
+  /**
+   * Creates a new instance of the OpenAI-compatible provider
+   * @param config Configuration for this provider
+   */
+  constructor(config: OpenAICompatibleProviderConfig) {
+    super(config);
+  }
+
+  /**
+   * Validates the OpenAI-compatible provider configuration
+   * @param config Configuration to validate
+   * @returns Validated configuration
+   */
+  protected validateConfig(
+    config: OpenAICompatibleProviderConfig
+  ): OpenAICompatibleProviderConfig {
+    // Call parent validation for common fields
+    const validatedConfig = super.validateConfig(
+      config
+    ) as OpenAICompatibleProviderConfig;
+
+    // Set OpenAI-compatible defaults
+    validatedConfig.baseUrl = (
+      validatedConfig.baseUrl ||
+      getEnv(ENV_VARS.OPENAI_COMPATIBLE_BASE_URL) ||
+      ""
+    ).replace(/\/+$/, "");
+    validatedConfig.authScheme = validatedConfig.authScheme || "bearer";
+    validatedConfig.authHeader = validatedConfig.authHeader || "api-key";
+
+    return validatedConfig;
+  }
+
+  /**
+   * Servers without authentication do not need an API key
+   * @param config Configuration being validated
+   * @returns True unless the auth scheme is "none"
+   */
+  protected requiresApiKey(config: OpenAICompatibleProviderConfig): boolean {
+    return config.authScheme !== "none";
+  }
+
+  /**
+   * Gets the chat completions URL of the configured server
+   * @returns Endpoint URL
+   */
+  protected getEndpointUrl(): string {
+    const config = this.config as OpenAICompatibleProviderConfig;
+
+    if (!config.baseUrl) {
+      throw new Error(
+        `OpenAI-compatible provider requires a base URL. Set config.baseUrl or ${ENV_VARS.OPENAI_COMPATIBLE_BASE_URL}.`
+      );
+    }
+
+    return `${config.baseUrl}/chat/completions`;
+  }
+
+  /**
+   * Resolves the API key, which is optional when the auth scheme is "none"
+   * @returns The API key, or an empty string
+   */
+  protected resolveApiKey(): string {
+    const config = this.config as OpenAICompatibleProviderConfig;
+
+    if (config.authScheme === "none") {
+      return "";
+    }
+
+    return super.resolveApiKey();
+  }
+
+  /**
+   * Gets the name of the environment variable holding the API key
+   * @returns Environment variable name
+   */
+  protected getApiKeyEnvVar(): string {
+    return ENV_VARS.OPENAI_COMPATIBLE_API_KEY;
+  }
+
+  /**
+   * Gets the HTTP headers for a request, applying extra headers and the auth scheme
+   * @param apiKey API key to authenticate with
+   * @returns Request headers
+   */
+  protected getRequestHeaders(apiKey: string): Record<string, string> {
+    const config = this.config as OpenAICompatibleProviderConfig;
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...(config.headers || {}),
+    };
+
+    switch (config.authScheme) {
+      case "none":
+        break;
+      case "api-key":
+        headers[config.authHeader || "api-key"] = apiKey;
+        break;
+      default:
+        headers.Authorization = `Bearer ${apiKey}`;
+    }
+
+    return headers;
+  }
+}
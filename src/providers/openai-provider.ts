@@ -2,10 +2,14 @@
  * OpenAI provider implementation for the LLM service
  * Uses OpenAI's vision capabilities to evaluate images
  */
-import { LLMProviderConfig, LLMResponse, EvaluateOptions } from "../types/llm";
-import { BaseLLMProvider } from "./base-provider";
+import { LLMProviderConfig } from "../types/llm";
+import {
+  BaseLLMProvider,
+  StructuredRequest,
+  StructuredResponse,
+} from "./base-provider";
+import { AuthenticationError } from "./errors";
 import { ENV_VARS, getApiKey } from "../utils/env";
-import fs from "fs";
 
 /**
  * Configuration options specific to the OpenAI provider
@@ -13,6 +17,12 @@ import fs from "fs";
 export interface OpenAIProviderConfig extends LLMProviderConfig {
   /** Model to use for OpenAI API calls */
   model?: string;
+
+  /**
+   * Whether to request schema-enforced JSON output (response_format json_schema)
+   * Defaults to true, disable for servers that don't support it
+   */
+  structuredOutput?: boolean;
 }
 
 /**
@@ -34,41 +44,6 @@ export class OpenAIProvider extends BaseLLMProvider {
     super(config);
   }
 
-  /**
-   * Gets the default prompt for evaluating screenshots
-   * @returns Default prompt for screenshot evaluation
-   */
-  protected getSystemPrompt(specification: string): string {
-    return `You are a visual UI testing assistant. Analyze the image and determine if it meets the specification.
-Use a scale from 0.0 to 1.0 where:
-- 1.0 means the UI perfectly matches the specification
-- 0.0 means the UI completely fails to match the specification
-
-Format your answer as JSON with these fields:
-- confidence: number from 0.0 to 1.0
-- reasoning: your step-by-step explanation
-- verdict: string, "yes" if the UI matches the specification, "no" if it doesn't
-
-SPECIFICATION:
-${specification}
-
-Analyze carefully and be honest about the confidence score.`;
-  }
-
-  /**
-   * Get image as base64 encoded string
-   * @param imagePath Path to the image file
-   * @returns Base64 encoded image data
-   */
-  protected async getImageAsBase64(imagePath: string): Promise<string> {
-    try {
-      const imageBuffer = await fs.promises.readFile(imagePath);
-      return imageBuffer.toString("base64");
-    } catch (error) {
-      throw new Error(`Failed to read image file: ${error}`);
-    }
-  }
-
   /**
    * Validates the OpenAI provider configuration
    * @param config Configuration to validate
@@ -89,140 +64,141 @@ Analyze carefully and be honest about the confidence score.`;
   }
 
   /**
-   * OpenAI-specific implementation for evaluating a screenshot
-   * @param screenshotPath Path to the screenshot file
-   * @param specification Text specification to evaluate against
-   * @param options Additional options for the evaluation
-   * @returns Result of the evaluation
+   * Gets the URL of the chat completions endpoint
+   * @returns Endpoint URL
    */
-  protected async evaluateScreenshotInternal(
-    screenshotPath: string,
-    specification: string,
-    options: EvaluateOptions
-  ): Promise<LLMResponse> {
-    const config = this.config as OpenAIProviderConfig;
-    const systemPrompt = this.getSystemPrompt(specification);
-    const base64Image = await this.getImageAsBase64(screenshotPath);
-
-    if (!base64Image) {
-      throw new Error(`Could not read screenshot file: ${screenshotPath}`);
-    }
+  protected getEndpointUrl(): string {
+    return "https://api.openai.com/v1/chat/completions";
+  }
 
-    const apiKey = this.config.apiKey || getApiKey(ENV_VARS.OPENAI_API_KEY);
+  /**
+   * Resolves the API key from the configuration or the environment
+   * @returns The API key
+   */
+  protected resolveApiKey(): string {
+    const apiKey = this.config.apiKey || getApiKey(this.getApiKeyEnvVar());
     if (!apiKey) {
-      throw new Error(
-        "No OpenAI API key provided. Please check your environment variables."
+      throw new AuthenticationError(
+        `No ${this.providerName} API key provided. Please check your environment variables.`
       );
     }
 
-    try {
-      // Call the OpenAI API
-      const response = await fetch(
-        "https://api.openai.com/v1/chat/completions",
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${apiKey}`,
-          },
-          body: JSON.stringify({
-            model: config.model || OpenAIProvider.DEFAULT_MODEL,
-            messages: [
-              {
-                role: "system",
-                content: systemPrompt,
-              },
-              {
-                role: "user",
-                content: [
-                  {
-                    type: "text",
-                    text: "Evaluate if this UI element matches the specification.",
-                  },
-                  {
-                    type: "image_url",
-                    image_url: {
-                      url: `data:image/png;base64,${base64Image}`,
-                    },
-                  },
-                ],
-              },
-            ],
-            max_tokens: 1500,
-            temperature: 0.2,
-            ...(options.modelParameters || {}),
-          }),
-        }
-      );
+    return apiKey;
+  }
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        let errorMessage = `API request failed with status ${response.status}`;
+  /**
+   * Gets the name of the environment variable holding the API key
+   * @returns Environment variable name
+   */
+  protected getApiKeyEnvVar(): string {
+    return ENV_VARS.OPENAI_API_KEY;
+  }
 
-        if (errorData.error) {
-          errorMessage += `: ${JSON.stringify(errorData.error)}`;
-        }
+  /**
+   * Gets the HTTP headers for a request, including authentication
+   * @param apiKey API key to authenticate with
+   * @returns Request headers
+   */
+  protected getRequestHeaders(apiKey: string): Record<string, string> {
+    return {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${apiKey}`,
+    };
+  }
 
-        throw new Error(errorMessage);
-      }
+  /**
+   * Builds the chat completions request body for a structured request
+   * @param request Structured request to send
+   * @returns Request body
+   */
+  protected buildRequestBody(request: StructuredRequest): Record<string, any> {
+    const config = this.config as OpenAIProviderConfig;
+    const userContent: any[] = [{ type: "text", text: request.userText }];
 
-      const responseData = await response.json();
-      let content = "";
-
-      if (
-        responseData &&
-        responseData.choices &&
-        responseData.choices.length > 0
-      ) {
-        content =
-          responseData.choices[0].message?.content ||
-          JSON.stringify(responseData.choices[0]);
+    for (const image of request.images) {
+      if (image.label) {
+        userContent.push({ type: "text", text: image.label });
       }
 
-      // Try to extract JSON from the response content
-      let resultJson: any = {};
-
-      try {
-        // Find JSON in the string, in case there's text before or after
-        const jsonMatch = content.match(/(\{[\s\S]*\})/);
-        if (jsonMatch && jsonMatch[0]) {
-          resultJson = JSON.parse(jsonMatch[0]);
-        } else {
-          resultJson = JSON.parse(content);
-        }
-      } catch (error) {
-        console.error("[OpenAI] Failed to parse response JSON:", error);
-        resultJson = {
-          confidence: 0,
-          reasoning: `Error parsing response: ${content}`,
-          verdict: "no",
-        };
-      }
+      userContent.push({
+        type: "image_url",
+        image_url: {
+          url: `data:image/png;base64,${image.data}`,
+        },
+      });
+    }
 
-      if (!("confidence" in resultJson)) {
-        console.log("[OpenAI] Could not access response content");
-        return {
-          confidence: 0,
-          reasoning: `Invalid response format: ${JSON.stringify(resultJson)}`,
-          verdict: "no",
-          rawResponse: options.includeRawResponse ? content : undefined,
-        };
-      }
+    return {
+      model: config.model || OpenAIProvider.DEFAULT_MODEL,
+      messages: [
+        {
+          role: "system",
+          content: request.systemPrompt,
+        },
+        {
+          role: "user",
+          content: userContent,
+        },
+      ],
+      // Ask for output matching the schema, unless the server can't do it
+      ...(config.structuredOutput === false
+        ? {}
+        : {
+            response_format: {
+              type: "json_schema",
+              json_schema: {
+                name: request.schemaName,
+                strict: true,
+                schema: request.schema,
+              },
+            },
+          }),
+      max_tokens: 1500,
+      temperature: 0.2,
+      ...(request.options.modelParameters || {}),
+    };
+  }
+
+  /**
+   * OpenAI-specific transport for a structured request
+   * @param request Structured request to send
+   * @returns Model output and raw API response
+   */
+  protected async sendStructuredRequest(
+    request: StructuredRequest
+  ): Promise<StructuredResponse> {
+    // Replayed requests never reach the API, so no key is needed
+    const apiKey = this.isReplaying(request.options)
+      ? ""
+      : this.resolveApiKey();
+
+    try {
+      // Call the OpenAI API
+      const responseData = await this.postJson(
+        this.getEndpointUrl(),
+        this.getRequestHeaders(apiKey),
+        this.buildRequestBody(request),
+        request.options
+      );
+      const message = responseData?.choices?.[0]?.message;
 
+      // A refusal has no content to parse, pass it on so it gets reported
       return {
-        confidence: resultJson.confidence,
-        reasoning: resultJson.reasoning || "No reasoning provided",
-        verdict: resultJson.verdict || "no",
-        rawResponse: options.includeRawResponse ? content : undefined,
+        output: message?.content || message?.refusal || "",
+        raw: responseData,
+        usage: responseData?.usage && {
+          inputTokens: responseData.usage.prompt_tokens || 0,
+          outputTokens: responseData.usage.completion_tokens || 0,
+        },
+        model: responseData?.model,
       };
     } catch (error) {
-      console.error("[OpenAI] API error:", error);
+      console.error(`[${this.providerName}] API error:`, error);
 
       // Special handling for authentication errors
-      const errorMessage = (error as Error).message || "";
-      if (errorMessage.includes("401")) {
+      if (error instanceof AuthenticationError) {
         console.error(
-          "[OpenAI] Authentication error: Invalid API key. Please check your OPENAI_API_KEY."
+          `[${this.providerName}] Authentication error: Invalid API key. Please check your ${this.getApiKeyEnvVar()}.`
         );
       }
 
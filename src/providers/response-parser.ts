@@ -0,0 +1,556 @@
+/**
+ * Shared parsing and validation of structured model output
+ * Every provider hands its raw answer to these helpers, so all of them
+ * produce the same LLMResponse shape
+ */
+import {
+  Criterion,
+  CriterionResult,
+  ExtractionShape,
+  LLMResponse,
+} from "../types/llm";
+import { MalformedResponseError } from "./errors";
+
+export { MalformedResponseError };
+
+/**
+ * Minimal JSON schema type used to describe structured output
+ */
+export type JsonSchema = Record<string, any>;
+
+/**
+ * JSON schema of a screenshot evaluation
+ * All fields are required and nullable where optional, so it can be used in
+ * OpenAI's strict structured output mode as well as for tool input schemas
+ */
+export const EVALUATION_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    verdict: {
+      type: "string",
+      enum: ["yes", "no"],
+      description: "Does the UI match the specification?",
+    },
+    confidence: {
+      type: "number",
+      description: "Confidence in the verdict, from 0.0 to 1.0",
+    },
+    reasoning: {
+      type: "string",
+      description: "Detailed reasoning behind the decision",
+    },
+    failReason: {
+      type: ["string", "null"],
+      description:
+        'Why the UI fails the specification, null if verdict is "yes"',
+    },
+    suggestions: {
+      type: "array",
+      items: { type: "string" },
+      description: "Suggestions for fixing the UI, empty if none",
+    },
+  },
+  required: ["verdict", "confidence", "reasoning", "failReason", "suggestions"],
+  additionalProperties: false,
+};
+
+/**
+ * JSON schema of a flow evaluation, a screenshot evaluation naming the step that broke
+ */
+export const FLOW_EVALUATION_SCHEMA: JsonSchema = {
+  ...EVALUATION_SCHEMA,
+  properties: {
+    ...EVALUATION_SCHEMA.properties,
+    failedStep: {
+      type: ["string", "null"],
+      description:
+        'Label of the first step that breaks the specification, null if verdict is "yes"',
+    },
+  },
+  required: [...EVALUATION_SCHEMA.required, "failedStep"],
+};
+
+/**
+ * JSON schema of a checklist evaluation, one verdict per criterion
+ */
+export const CHECKLIST_EVALUATION_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    criteria: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          name: {
+            type: "string",
+            description: "Name of the criterion, as given",
+          },
+          verdict: EVALUATION_SCHEMA.properties.verdict,
+          confidence: EVALUATION_SCHEMA.properties.confidence,
+          reasoning: EVALUATION_SCHEMA.properties.reasoning,
+          failReason: EVALUATION_SCHEMA.properties.failReason,
+        },
+        required: ["name", "verdict", "confidence", "reasoning", "failReason"],
+        additionalProperties: false,
+      },
+      description: "Verdict on each criterion, in the order given",
+    },
+    suggestions: EVALUATION_SCHEMA.properties.suggestions,
+  },
+  required: ["criteria", "suggestions"],
+  additionalProperties: false,
+};
+
+/**
+ * JSON schema of an accessibility audit, a checklist evaluation of the rules
+ * of the rubric naming the elements that break them
+ */
+export const A11Y_AUDIT_SCHEMA: JsonSchema = {
+  ...CHECKLIST_EVALUATION_SCHEMA,
+  properties: {
+    ...CHECKLIST_EVALUATION_SCHEMA.properties,
+    criteria: {
+      ...CHECKLIST_EVALUATION_SCHEMA.properties.criteria,
+      items: {
+        ...CHECKLIST_EVALUATION_SCHEMA.properties.criteria.items,
+        properties: {
+          ...CHECKLIST_EVALUATION_SCHEMA.properties.criteria.items.properties,
+          elements: {
+            type: "array",
+            items: { type: "string" },
+            description:
+              "Elements breaking the rule, as described in the facts, empty if none",
+          },
+        },
+        required: [
+          ...CHECKLIST_EVALUATION_SCHEMA.properties.criteria.items.required,
+          "elements",
+        ],
+      },
+    },
+  },
+};
+
+/**
+ * Build the JSON schema of an extraction
+ * Scalars are nullable so the model can say a value is not visible,
+ * every field is required so the schema works in strict modes
+ * @param shape Fields to extract and their types
+ * @returns JSON schema of the extracted object
+ */
+export function buildExtractionSchema(shape: ExtractionShape): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+
+  for (const [field, type] of Object.entries(shape)) {
+    if (typeof type === "object") {
+      properties[field] = buildExtractionSchema(type);
+    } else if (type.endsWith("[]")) {
+      properties[field] = {
+        type: "array",
+        items: { type: type.slice(0, -2) },
+      };
+    } else {
+      properties[field] = { type: [type, "null"] };
+    }
+  }
+
+  return {
+    type: "object",
+    properties,
+    required: Object.keys(shape),
+    additionalProperties: false,
+  };
+}
+
+/**
+ * Get a JSON value out of a model answer
+ * Accepts already parsed objects, plain JSON text, fenced code blocks,
+ * and JSON embedded in surrounding prose
+ * @param output Raw output from the provider
+ * @returns Parsed JSON value
+ */
+export function extractJson(output: unknown): unknown {
+  if (typeof output !== "string") {
+    return output;
+  }
+
+  const text = output.trim();
+  const candidates = [text];
+
+  // Content of a ```json fenced block
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (fenced) {
+    candidates.push(fenced[1].trim());
+  }
+
+  // Outermost object, in case there is text before or after it
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start !== -1 && end > start) {
+    candidates.push(text.slice(start, end + 1));
+  }
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Try the next candidate
+    }
+  }
+
+  throw new MalformedResponseError(
+    "Response does not contain valid JSON",
+    output
+  );
+}
+
+/**
+ * Validate and normalize a screenshot evaluation from a model answer
+ * @param output Raw output from the provider (text or parsed object)
+ * @returns Normalized LLM response, with confidence clamped to [0, 1]
+ * @throws MalformedResponseError if required fields are missing or invalid
+ */
+export function normalizeLLMResponse(output: unknown): LLMResponse {
+  const json = extractJson(output);
+
+  if (!json || typeof json !== "object" || Array.isArray(json)) {
+    throw new MalformedResponseError("Response is not a JSON object", output);
+  }
+
+  const result = json as Record<string, unknown>;
+
+  // Verdict: "yes"/"no", tolerating booleans and casing
+  let verdict: LLMResponse["verdict"];
+  const rawVerdict =
+    typeof result.verdict === "string"
+      ? result.verdict.trim().toLowerCase()
+      : result.verdict;
+
+  if (rawVerdict === "yes" || rawVerdict === true) {
+    verdict = "yes";
+  } else if (rawVerdict === "no" || rawVerdict === false) {
+    verdict = "no";
+  } else {
+    throw new MalformedResponseError(
+      `Invalid verdict: ${JSON.stringify(result.verdict)} (expected "yes" or "no")`,
+      output
+    );
+  }
+
+  // Confidence: a number, tolerating numeric strings
+  const confidence =
+    typeof result.confidence === "string"
+      ? parseFloat(result.confidence)
+      : result.confidence;
+
+  if (typeof confidence !== "number" || !isFinite(confidence)) {
+    throw new MalformedResponseError(
+      `Invalid confidence: ${JSON.stringify(result.confidence)} (expected a number from 0.0 to 1.0)`,
+      output
+    );
+  }
+
+  const response: LLMResponse = {
+    verdict,
+    confidence: Math.min(1, Math.max(0, confidence)),
+    reasoning:
+      typeof result.reasoning === "string" && result.reasoning
+        ? result.reasoning
+        : "No reasoning provided",
+  };
+
+  if (typeof result.failReason === "string" && result.failReason) {
+    response.failReason = result.failReason;
+  }
+
+  if (Array.isArray(result.suggestions)) {
+    const suggestions = result.suggestions.filter(
+      (suggestion): suggestion is string =>
+        typeof suggestion === "string" && suggestion.length > 0
+    );
+
+    if (suggestions.length > 0) {
+      response.suggestions = suggestions;
+    }
+  }
+
+  return response;
+}
+
+/**
+ * Validate and normalize a flow evaluation from a model answer
+ * @param output Raw output from the provider (text or parsed object)
+ * @param stepLabels Labels of the steps, in order
+ * @returns Normalized LLM response, with failedStep matched to a step label when possible
+ * @throws MalformedResponseError if required fields are missing or invalid
+ */
+export function normalizeFlowResponse(
+  output: unknown,
+  stepLabels: string[]
+): LLMResponse {
+  const response = normalizeLLMResponse(output);
+  const failedStep = (extractJson(output) as Record<string, unknown>)
+    .failedStep;
+
+  if (response.verdict === "yes" || failedStep === null) {
+    return response;
+  }
+
+  // Models name the step by its label, its number, or as "Step 2: label"
+  const answer = String(failedStep ?? "").trim();
+  const stepNumber = answer.match(/^(?:step\s*)?(\d+)\b/i);
+  const label =
+    stepLabels.find((candidate) => candidate === answer) ||
+    stepLabels.find(
+      (candidate) => candidate.toLowerCase() === answer.toLowerCase()
+    ) ||
+    (stepNumber ? stepLabels[parseInt(stepNumber[1], 10) - 1] : undefined);
+
+  if (label || answer) {
+    response.failedStep = label || answer;
+  }
+
+  return response;
+}
+
+/**
+ * Validate and normalize a checklist evaluation from a model answer
+ * @param output Raw output from the provider (text or parsed object)
+ * @param criteria Criteria that were asked for, in order
+ * @returns Normalized LLM response, with a verdict per criterion and an overall
+ * verdict that passes only if every criterion passes
+ * @throws MalformedResponseError if a criterion is missing or invalid
+ */
+export function normalizeChecklistResponse(
+  output: unknown,
+  criteria: Criterion[]
+): LLMResponse {
+  const json = extractJson(output);
+
+  if (!json || typeof json !== "object" || Array.isArray(json)) {
+    throw new MalformedResponseError("Response is not a JSON object", output);
+  }
+
+  const result = json as Record<string, unknown>;
+
+  if (!Array.isArray(result.criteria)) {
+    throw new MalformedResponseError(
+      "Missing the list of criteria verdicts",
+      output
+    );
+  }
+
+  const answers = result.criteria as unknown[];
+  const nameOf = (answer: unknown) =>
+    answer && typeof answer === "object"
+      ? String((answer as Record<string, unknown>).name ?? "")
+          .trim()
+          .toLowerCase()
+      : "";
+
+  const results = criteria.map((criterion, index): CriterionResult => {
+    // Matched by name, models that drop or reword the names by position
+    const answer =
+      answers.find(
+        (candidate) => nameOf(candidate) === criterion.name.toLowerCase()
+      ) ?? (answers.length === criteria.length ? answers[index] : undefined);
+
+    if (answer === undefined) {
+      throw new MalformedResponseError(
+        `Missing verdict of criterion "${criterion.name}"`,
+        output
+      );
+    }
+
+    const { verdict, confidence, reasoning, failReason } =
+      normalizeLLMResponse(answer);
+    const elements = (answer as Record<string, unknown>).elements;
+
+    return {
+      name: criterion.name,
+      specification: criterion.specification,
+      verdict,
+      confidence,
+      reasoning,
+      failReason,
+      // Named by accessibility audits
+      elements:
+        Array.isArray(elements) && elements.length > 0
+          ? elements.filter(
+              (element): element is string => typeof element === "string"
+            )
+          : undefined,
+    };
+  });
+
+  const response = summarizeCriteria(results);
+
+  if (Array.isArray(result.suggestions)) {
+    const suggestions = result.suggestions.filter(
+      (suggestion): suggestion is string =>
+        typeof suggestion === "string" && suggestion.length > 0
+    );
+
+    if (suggestions.length > 0) {
+      response.suggestions = suggestions;
+    }
+  }
+
+  return response;
+}
+
+/**
+ * Combine the verdicts on the criteria of a checklist into one response
+ * It passes only if every criterion passes, and is as confident as its
+ * weakest pass, or its most confident failure
+ * @param criteria Verdict on each criterion
+ * @returns Response with the overall verdict and the criteria
+ */
+export function summarizeCriteria(criteria: CriterionResult[]): LLMResponse {
+  const failing = criteria.filter((criterion) => criterion.verdict === "no");
+  const verdict = failing.length === 0 ? "yes" : "no";
+
+  return {
+    verdict,
+    confidence:
+      verdict === "yes"
+        ? Math.min(...criteria.map((criterion) => criterion.confidence))
+        : Math.max(...failing.map((criterion) => criterion.confidence)),
+    reasoning: criteria
+      .map(
+        (criterion) =>
+          `[${criterion.name}] ${criterion.verdict} (${criterion.confidence.toFixed(
+            2
+          )}): ${criterion.reasoning || "No reasoning provided"}`
+      )
+      .join("\n"),
+    failReason:
+      failing.length > 0
+        ? failing
+            .map(
+              (criterion) =>
+                `[${criterion.name}] ${
+                  criterion.failReason || "Did not match the criterion"
+                }`
+            )
+            .join("; ")
+        : undefined,
+    criteria,
+  };
+}
+
+/**
+ * Convert an extracted value to the requested scalar type
+ * Tolerates numbers and booleans written as text
+ * @param value Extracted value
+ * @param type Requested type, without the list suffix
+ * @param field Path of the field, for error messages
+ * @param output Raw output, for error messages
+ * @returns Converted value, or null when the model found none
+ */
+function toExtractedScalar(
+  value: unknown,
+  type: string,
+  field: string,
+  output: unknown
+): unknown {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  if (type === "string") {
+    if (typeof value === "string" || typeof value === "number") {
+      return String(value);
+    }
+  } else if (type === "number") {
+    const number =
+      typeof value === "string"
+        ? parseFloat(value.replace(/[^\d.eE+-]/g, ""))
+        : value;
+    if (typeof number === "number" && isFinite(number)) {
+      return number;
+    }
+  } else if (type === "boolean") {
+    if (typeof value === "boolean") {
+      return value;
+    }
+    if (value === "true" || value === "false") {
+      return value === "true";
+    }
+  }
+
+  throw new MalformedResponseError(
+    `Invalid value of field "${field}": ${JSON.stringify(value)} (expected ${type})`,
+    output
+  );
+}
+
+/**
+ * Validate and normalize extracted data from a model answer
+ * @param output Raw output from the provider (text or parsed object)
+ * @param shape Fields that were requested and their types
+ * @returns Extracted object with exactly the requested fields
+ * @throws MalformedResponseError if a field is missing or has the wrong type
+ */
+export function parseExtraction(
+  output: unknown,
+  shape: ExtractionShape
+): Record<string, unknown> {
+  return parseExtractedObject(extractJson(output), shape, "", output);
+}
+
+/**
+ * Validate the fields of an extracted object, recursing into nested shapes
+ * @param value Extracted object
+ * @param shape Fields that were requested and their types
+ * @param prefix Path of the object, for error messages
+ * @param output Raw output, for error messages
+ * @returns Extracted object with exactly the requested fields
+ */
+function parseExtractedObject(
+  value: unknown,
+  shape: ExtractionShape,
+  prefix: string,
+  output: unknown
+): Record<string, unknown> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new MalformedResponseError(
+      prefix
+        ? `Field "${prefix}" is not an object`
+        : "Response is not a JSON object",
+      output
+    );
+  }
+
+  const result = value as Record<string, unknown>;
+  const data: Record<string, unknown> = {};
+
+  for (const [field, type] of Object.entries(shape)) {
+    const path = prefix ? `${prefix}.${field}` : field;
+
+    if (!(field in result)) {
+      throw new MalformedResponseError(`Missing field "${path}"`, output);
+    }
+
+    const fieldValue = result[field];
+
+    if (typeof type === "object") {
+      data[field] = parseExtractedObject(fieldValue, type, path, output);
+    } else if (type.endsWith("[]")) {
+      // A single value where a list was asked for is a list of one
+      const items =
+        fieldValue === null
+          ? []
+          : Array.isArray(fieldValue)
+            ? fieldValue
+            : [fieldValue];
+      data[field] = items
+        .map((item) => toExtractedScalar(item, type.slice(0, -2), path, output))
+        .filter((item) => item !== null);
+    } else {
+      data[field] = toExtractedScalar(fieldValue, type, path, output);
+    }
+  }
+
+  return data;
+}
@@ -0,0 +1,79 @@
+/**
+ * Retry decisions for failed provider requests
+ * Exponential backoff with jitter, a cap on the total wait, per-class
+ * behavior and support for the provider's Retry-After hints
+ */
+import { ProviderErrorType, RetryPolicy } from "../types/llm";
+import { LLMProviderError } from "./errors";
+
+/**
+ * Retry policy with every option set
+ */
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  jitter: 0.5,
+  maxTotalWaitMs: 60000,
+  respectRetryAfter: true,
+  retryOn: {
+    auth: false,
+    "invalid-request": false,
+  },
+};
+
+/**
+ * Fill in the missing options of a retry policy with the defaults
+ * @param policies Policies from the most general to the most specific
+ * @returns Complete retry policy
+ */
+export function resolveRetryPolicy(
+  ...policies: (RetryPolicy | undefined)[]
+): Required<RetryPolicy> {
+  return policies.reduce<Required<RetryPolicy>>(
+    (resolved, policy) => ({
+      ...resolved,
+      ...policy,
+      retryOn: { ...resolved.retryOn, ...policy?.retryOn },
+    }),
+    DEFAULT_RETRY_POLICY
+  );
+}
+
+/**
+ * Check whether a failure class is retried
+ * @param policy Resolved retry policy
+ * @param type Class of the failure
+ * @returns True if the request should be retried
+ */
+export function isRetryable(
+  policy: Required<RetryPolicy>,
+  type: ProviderErrorType
+): boolean {
+  return policy.retryOn[type] !== false;
+}
+
+/**
+ * Compute how long to wait before the next attempt
+ * @param policy Resolved retry policy
+ * @param attempt Number of the attempt that just failed, starting at 1
+ * @param error Error of the failed attempt
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelay(
+  policy: Required<RetryPolicy>,
+  attempt: number,
+  error: LLMProviderError
+): number {
+  // The provider knows best when it will accept requests again
+  if (policy.respectRetryAfter && error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, policy.maxDelayMs);
+  }
+
+  const delay = Math.min(
+    policy.baseDelayMs * Math.pow(2, attempt - 1),
+    policy.maxDelayMs
+  );
+  const jitter = Math.min(1, Math.max(0, policy.jitter));
+
+  return Math.round(delay * (1 - jitter * Math.random()));
+}
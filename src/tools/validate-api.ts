@@ -12,6 +12,7 @@ import path from "path";
 import fs from "fs";
 import { AnthropicProvider } from "../providers/anthropic-provider";
 import { OpenAIProvider } from "../providers/openai-provider";
+import { GeminiProvider } from "../providers/gemini-provider";
 import { ENV_VARS, getApiKey, validateEnv } from "../utils/env";
 
 // Check environment variables
@@ -105,6 +106,39 @@ async function testOpenAI() {
   }
 }
 
+/**
+ * Test Gemini API connection
+ */
+async function testGemini() {
+  console.log("\n--- Testing Gemini API ---");
+  const apiKey = getApiKey(ENV_VARS.GEMINI_API_KEY);
+
+  if (!apiKey) {
+    console.log("❌ No Gemini API key found. Skipping Gemini test.");
+    return false;
+  }
+
+  try {
+    console.log("Initializing Gemini provider...");
+    const provider = new GeminiProvider({
+      apiKey,
+    });
+
+    console.log("Sending test request to Gemini API...");
+    await provider.evaluateScreenshot(
+      TEST_IMAGE_PATH,
+      "A test image for API validation",
+      { includeRawResponse: false }
+    );
+
+    console.log("✅ Gemini API test successful!");
+    return true;
+  } catch (error: any) {
+    console.error("❌ Gemini API test failed:", error.message);
+    return false;
+  }
+}
+
 /**
  * Main function - run all tests
  */
@@ -121,14 +155,18 @@ async function main() {
   // Test OpenAI API
   const openaiSuccess = await testOpenAI();
 
+  // Test Gemini API
+  const geminiSuccess = await testGemini();
+
   // Summary
   console.log("\n===== Test Results =====");
   console.log(
     `Anthropic API: ${anthropicSuccess ? "✅ Connected" : "❌ Failed"}`
   );
   console.log(`OpenAI API: ${openaiSuccess ? "✅ Connected" : "❌ Failed"}`);
+  console.log(`Gemini API: ${geminiSuccess ? "✅ Connected" : "❌ Failed"}`);
 
-  if (!anthropicSuccess && !openaiSuccess) {
+  if (!anthropicSuccess && !openaiSuccess && !geminiSuccess) {
     console.error(
       "❌ No API connections successful. Please check your API keys and network connection."
     );
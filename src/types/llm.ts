@@ -17,8 +17,313 @@ export interface LLMResponse {
   /** Suggestions for improving the UI or fixing issues */
   suggestions?: string[];
 
+  /** Label of the first step that broke the specification, when evaluating a flow */
+  failedStep?: string;
+
+  /** Verdict on each criterion, when evaluating a checklist */
+  criteria?: CriterionResult[];
+
   /** Raw response from the LLM provider (for debugging) */
   rawResponse?: unknown;
+
+  /** Name of the provider that produced this response */
+  provider?: string;
+
+  /** Individual results of each provider, when several providers were asked */
+  providerResults?: ProviderResult[];
+
+  /** Providers that failed before the answering provider, when falling back */
+  failedProviders?: ProviderResult[];
+
+  /** Details of the provider failure, when no provider could answer */
+  error?: ProviderErrorInfo;
+
+  /** Token usage, latency and estimated cost of the evaluation */
+  usage?: LLMUsage;
+
+  /** True when the check was not evaluated, e.g. because the run budget is used up */
+  skipped?: boolean;
+
+  /** Whether the response came from the evaluation cache, when caching is enabled */
+  cacheStatus?: "hit" | "miss";
+
+  /** Time the requests waited in the provider's queue in milliseconds, when it has limits */
+  queueWaitMs?: number;
+
+  /** What happened to the baseline of the check, when it uses one */
+  baseline?: BaselineResult;
+}
+
+/**
+ * A named criterion of a checklist specification
+ */
+export interface Criterion {
+  /** Name of the criterion, its position for checklists given as a list */
+  name: string;
+
+  /** What the UI must satisfy */
+  specification: string;
+}
+
+/**
+ * Verdict on one criterion of a checklist
+ */
+export interface CriterionResult {
+  /** Name of the criterion */
+  name: string;
+
+  /** The criterion, as given */
+  specification: string;
+
+  /** Whether the UI satisfies the criterion (yes) or not (no) */
+  verdict: "yes" | "no";
+
+  /** Confidence level from 0.0 to 1.0 */
+  confidence: number;
+
+  /** Reasoning behind the verdict */
+  reasoning?: string;
+
+  /** Reason for failure if verdict is "no" */
+  failReason?: string;
+
+  /** Elements the verdict is about, named by an accessibility audit */
+  elements?: string[];
+}
+
+/**
+ * Facts the browser knows about an element, sent along with the screenshot of
+ * an accessibility audit
+ */
+export interface A11yElementFacts {
+  /** Short description, e.g. 'button.primary "Save"' */
+  element: string;
+
+  /** ARIA role, explicit or implied by the tag */
+  role?: string;
+
+  /** Accessible name and state attributes: aria-*, alt, title */
+  attributes?: Record<string, string>;
+
+  /** Computed text color */
+  color: string;
+
+  /** Computed background color, of the nearest ancestor with one */
+  backgroundColor: string;
+
+  /** Contrast ratio of the text with its background, when both are opaque */
+  contrastRatio?: number;
+
+  /** Computed font size and weight, e.g. "14px 400" */
+  font: string;
+
+  /** Rendered size in CSS pixels */
+  width: number;
+  height: number;
+
+  /** Whether it can be interacted with (links, buttons, form fields) */
+  interactive: boolean;
+
+  /** Whether it has the focus */
+  focused: boolean;
+
+  /** Computed outline without the focus, e.g. "none 0px" */
+  outline?: string;
+}
+
+/**
+ * Outcome of a check against its golden baseline
+ */
+export interface BaselineResult {
+  /**
+   * - "recorded": there was no baseline, the passing result became one
+   * - "updated": update mode replaced the baseline with the passing result
+   * - "unchanged": the screenshot is identical to the baseline, its verdict was reused
+   * - "compared": the screenshot was compared with the baseline by the model
+   * - "outdated": the baseline was accepted for another specification, the check failed
+   */
+  status: "recorded" | "updated" | "unchanged" | "compared" | "outdated";
+
+  /** Path of the baseline screenshot */
+  path: string;
+}
+
+/**
+ * Type of an extracted field
+ * Scalars are null when the value is not visible, lists are empty
+ */
+export type ExtractionFieldType =
+  "string" | "number" | "boolean" | "string[]" | "number[]" | "boolean[]";
+
+/**
+ * Fields to read off a screenshot, by name, nested shapes for grouped fields
+ * @example { legendItems: "string[]", highestBar: "string" }
+ */
+export interface ExtractionShape {
+  [field: string]: ExtractionFieldType | ExtractionShape;
+}
+
+/**
+ * Data read off a screenshot by a provider
+ */
+export interface ExtractionResponse {
+  /** Extracted fields, following the requested shape */
+  data: Record<string, unknown>;
+
+  /** Name of the provider that produced this response */
+  provider?: string;
+
+  /** Raw response from the LLM provider (for debugging) */
+  rawResponse?: unknown;
+
+  /** Token usage, latency and estimated cost of the extraction */
+  usage?: LLMUsage;
+
+  /** Time the requests waited in the provider's queue in milliseconds, when it has limits */
+  queueWaitMs?: number;
+
+  /** Details of the provider failure, when the data could not be read */
+  error?: ProviderErrorInfo;
+}
+
+/**
+ * Token usage and cost of an evaluation
+ */
+export interface LLMUsage {
+  /** Model that answered, as reported by the API */
+  model?: string;
+
+  /** Tokens sent to the model */
+  inputTokens: number;
+
+  /** Tokens generated by the model */
+  outputTokens: number;
+
+  /** Time spent waiting for the API in milliseconds */
+  latencyMs: number;
+
+  /** Estimated cost in US dollars, missing when the model is not in the price table */
+  estimatedCost?: number;
+}
+
+/**
+ * Price of a model in US dollars per million tokens
+ */
+export interface ModelPrice {
+  /** Price of a million input tokens */
+  input: number;
+
+  /** Price of a million output tokens */
+  output: number;
+}
+
+/**
+ * Classes of provider failures
+ * - "auth": missing, invalid or unauthorized API key
+ * - "rate-limit": too many requests
+ * - "server": the provider failed or is overloaded
+ * - "timeout": the request took longer than the configured timeout
+ * - "network": the provider could not be reached
+ * - "invalid-request": the provider rejected the request itself
+ * - "malformed-response": the answer could not be parsed, even after a repair attempt
+ * - "unknown": anything else
+ */
+export type ProviderErrorType =
+  | "auth"
+  | "rate-limit"
+  | "server"
+  | "timeout"
+  | "network"
+  | "invalid-request"
+  | "malformed-response"
+  | "unknown";
+
+/**
+ * Serializable description of a provider failure
+ */
+export interface ProviderErrorInfo {
+  /** Class of the failure */
+  type: ProviderErrorType;
+
+  /** Error message */
+  message: string;
+
+  /** HTTP status code, if the failure came from an HTTP response */
+  status?: number;
+
+  /** Number of attempts made before giving up */
+  attempts?: number;
+
+  /** Usage of the requests that were answered before the failure */
+  usage?: LLMUsage[];
+}
+
+/**
+ * How failed provider requests are retried
+ */
+export interface RetryPolicy {
+  /** Delay before the first retry in milliseconds, doubled on each retry. Default is 1000 */
+  baseDelayMs?: number;
+
+  /** Upper bound of a single delay in milliseconds. Default is 30000 */
+  maxDelayMs?: number;
+
+  /**
+   * Fraction of each delay that is randomized, from 0 (fixed delays) to 1
+   * (anywhere between 0 and the full delay). Default is 0.5
+   */
+  jitter?: number;
+
+  /** Stop retrying once the total time spent waiting would exceed this, in milliseconds. Default is 60000 */
+  maxTotalWaitMs?: number;
+
+  /** Wait as long as the provider asks with Retry-After, up to maxDelayMs. Default is true */
+  respectRetryAfter?: boolean;
+
+  /**
+   * Which failure classes are retried. By default everything is retried
+   * except "auth" and "invalid-request", which would fail the same way again
+   */
+  retryOn?: Partial<Record<ProviderErrorType, boolean>>;
+}
+
+/**
+ * Outcome of one provider when several providers evaluate the same screenshot
+ */
+export interface ProviderResult {
+  /** Name of the provider */
+  provider: string;
+
+  /** The provider's response, if it answered */
+  response?: LLMResponse;
+
+  /** Error message, if the provider failed */
+  error?: string;
+
+  /** Class of the failure, if the provider failed */
+  errorType?: ProviderErrorType;
+
+  /** Usage of the requests the provider answered before it failed */
+  usage?: LLMUsage[];
+}
+
+/**
+ * How the responses of several providers are combined into one verdict
+ * - "majority": the verdict most providers agree on, ties fail
+ * - "all": passes only if every provider passes
+ * - "mean-confidence": averages the providers' confidence that the UI passes
+ */
+export type ConsensusStrategy = "majority" | "all" | "mean-confidence";
+
+/**
+ * Options for evaluating one screenshot with several providers
+ */
+export interface ConsensusOptions {
+  /** Names of the registered providers to ask */
+  providers: string[];
+
+  /** How to combine their responses, default is "majority" */
+  strategy?: ConsensusStrategy;
 }
 
 /**
@@ -36,6 +341,90 @@ export interface EvaluateOptions {
 
   /** Maximum attempts to retry on API failure or malformed response */
   maxRetries?: number;
+
+  /** Delays and failure classes of the retries */
+  retryPolicy?: RetryPolicy;
+
+  /** Evaluate with several providers and combine their verdicts */
+  consensus?: ConsensusOptions;
+
+  /** Providers to try in order when the selected provider fails */
+  fallbackProviders?: string[];
+
+  /**
+   * Use of the evaluation cache: true (default) reads and writes it,
+   * false bypasses it, "refresh" re-evaluates and overwrites the cached result
+   */
+  cache?: boolean | "refresh";
+
+  /** Record the provider requests to a cassette, or replay them from it */
+  cassette?: CassetteOptions;
+
+  /**
+   * Reference images sent after the screenshot, e.g. a baseline or design mock.
+   * When set, the specification says how the screenshot must compare to them
+   */
+  referenceImages?: ReferenceImage[];
+
+  /**
+   * Labeled screenshots of the steps of a flow, in order, evaluated together
+   * against one specification. The evaluated screenshot is the first step
+   */
+  flowSteps?: FlowStep[];
+
+  /**
+   * Criteria of a checklist, each getting its own verdict in a single call.
+   * The specification is then the criteria written out, for caching and logs
+   */
+  criteria?: Criterion[];
+
+  /**
+   * DOM facts of an accessibility audit. The criteria are then the rules of
+   * its rubric, evaluated with its own prompt
+   */
+  a11yFacts?: A11yElementFacts[];
+}
+
+/**
+ * A screenshot taken at one step of a flow
+ */
+export interface FlowStep {
+  /** What happened at this step, e.g. "After clicking Save" */
+  label: string;
+
+  /** Path of the screenshot */
+  path: string;
+}
+
+/**
+ * An image the screenshot is compared against
+ */
+export interface ReferenceImage {
+  /** Path of the PNG file */
+  path: string;
+
+  /** Label sent before the image, default is "Reference image" */
+  label?: string;
+}
+
+/**
+ * Cassette used to record or replay provider requests
+ */
+export interface CassetteOptions {
+  /** Path of the cassette file */
+  path: string;
+
+  /**
+   * - "record": send requests and save every request/response pair
+   * - "replay": serve saved responses, failing on requests that were not recorded
+   */
+  mode: "record" | "replay";
+
+  /**
+   * Identifies the run of the spec. A new run starts the cassette over, so
+   * re-running a spec in cypress open does not add to the previous recording
+   */
+  run?: string;
 }
 
 /**
@@ -54,8 +443,72 @@ export interface LLMProvider {
     specification: string,
     options?: EvaluateOptions
   ): Promise<LLMResponse>;
+
+  /**
+   * Gets the model answering the evaluations, part of the evaluation cache key
+   * @returns Model name, or undefined for the provider's default model
+   */
+  getModel?(): string | undefined;
+
+  /** Whether evaluations of this provider may be cached, default is true */
+  cacheable?: boolean;
+
+  /**
+   * Reads structured data off a screenshot
+   * @param screenshotPath Path to the screenshot file
+   * @param shape Fields to extract and their types
+   * @param options Evaluation options
+   * @returns Promise with the extracted data
+   */
+  extractData?(
+    screenshotPath: string,
+    shape: ExtractionShape,
+    options?: EvaluateOptions
+  ): Promise<ExtractionResponse>;
+
+  /**
+   * Limits the API requests the provider sends
+   * Providers without it are limited per evaluation by LLMService
+   * @param limits Maximum concurrency and requests per minute, or null to remove the limits
+   */
+  setRequestLimits?(limits: ProviderLimits | null): void;
+
+  /**
+   * Gets the longest time evaluations started together may take, waits in
+   * the queue, retries and repair requests included
+   * Sizes the timeout of the Cypress task behind a check
+   * @param options Evaluation options of the check
+   * @param evaluations Number of evaluations started together
+   * @returns Upper bound in milliseconds
+   */
+  getMaxDuration?(options: EvaluateOptions, evaluations: number): number;
+}
+
+/**
+ * Limits on the API requests sent to one provider
+ */
+export interface ProviderLimits {
+  /** Maximum number of requests in flight at the same time */
+  maxConcurrency?: number;
+
+  /** Maximum number of requests started per minute */
+  requestsPerMinute?: number;
 }
 
+/**
+ * Function creating an LLM provider instance on demand
+ */
+export type LLMProviderFactory = () => LLMProvider;
+
+/**
+ * Anything that can be registered as a provider: an instance, a factory,
+ * or a built-in provider type with its configuration
+ */
+export type LLMProviderRegistration =
+  | LLMProvider
+  | LLMProviderFactory
+  | { type: LLMProviderType; config: LLMProviderConfig };
+
 /**
  * Configuration options for LLM providers
  */
@@ -81,6 +534,21 @@ export interface LLMProviderConfig {
   /** Temperature for response generation */
   temperature?: number;
 
+  /** Timeout of a single API request in milliseconds, default is 60000 */
+  timeoutMs?: number;
+
+  /** Default retry policy, overridden per evaluation by EvaluateOptions.retryPolicy */
+  retryPolicy?: RetryPolicy;
+
+  /** Maximum number of API requests in flight at the same time */
+  maxConcurrency?: number;
+
+  /** Maximum number of API requests started per minute */
+  requestsPerMinute?: number;
+
+  /** Factory used by the "custom" provider type to create the provider instance */
+  factory?: (config: LLMProviderConfig) => LLMProvider;
+
   /** Provider-specific parameters */
   [key: string]: any;
 }
@@ -88,4 +556,12 @@ export interface LLMProviderConfig {
 /**
  * Available LLM provider types
  */
-export type LLMProviderType = "anthropic" | "openai" | "custom";
+export type LLMProviderType =
+  | "anthropic"
+  | "openai"
+  | "azure-openai"
+  | "openai-compatible"
+  | "gemini"
+  | "local"
+  | "mock"
+  | "custom";
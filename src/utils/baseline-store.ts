@@ -0,0 +1,183 @@
+import fs from "fs";
+import path from "path";
+import { LLMResponse } from "../types/llm";
+import { ensureDirSync } from "./fs-utils";
+
+/**
+ * Options of the baseline store
+ */
+export interface BaselineStoreOptions {
+  /** Directory holding the baselines, meant to be committed */
+  directory: string;
+
+  /** Accept the current results, replacing existing baselines */
+  update?: boolean;
+}
+
+/**
+ * Identifies the check a baseline belongs to
+ */
+export interface BaselineKey {
+  /** Path of the spec file, relative to the project root */
+  spec: string;
+
+  /** Titles of the test and the suites around it */
+  test: string[];
+
+  /** Name of the check within the test */
+  check: string;
+}
+
+/**
+ * Verdict accepted together with a baseline screenshot
+ */
+export interface BaselineRecord {
+  /** Specification the screenshot was accepted for */
+  specification: string;
+
+  /** Accepted verdict */
+  verdict: "yes" | "no";
+
+  /** Confidence of the accepted verdict */
+  confidence: number;
+
+  /** Reasoning of the accepted verdict */
+  reasoning?: string;
+
+  /** Provider that gave the accepted verdict */
+  provider?: string;
+
+  /** When the baseline was accepted, as an ISO date */
+  acceptedAt: string;
+}
+
+/**
+ * A stored baseline
+ */
+export interface Baseline {
+  /** Path of the baseline screenshot */
+  imagePath: string;
+
+  /** Verdict accepted with it */
+  record: BaselineRecord;
+}
+
+/**
+ * Turn a title into a file name
+ * @param title Title of a spec, test or check
+ * @returns Title with only file name safe characters
+ */
+function toFileName(title: string): string {
+  return title.replace(/[^\w.-]+/g, "-").replace(/^-+|-+$/g, "") || "-";
+}
+
+/**
+ * Golden baselines of vibe checks, one screenshot and accepted verdict per
+ * spec, test and check name. Later runs are compared against them, like
+ * Jest snapshots
+ */
+export class BaselineStore {
+  /** Options of the store */
+  private options: BaselineStoreOptions;
+
+  /**
+   * Creates a new baseline store
+   * @param options Directory and update mode
+   */
+  constructor(options: BaselineStoreOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Whether current results replace the existing baselines
+   * @returns True in update mode
+   */
+  isUpdating(): boolean {
+    return !!this.options.update;
+  }
+
+  /**
+   * Look up the baseline of a check
+   * @param key Spec, test and check name
+   * @returns The baseline, or undefined if none was accepted yet
+   */
+  get(key: BaselineKey): Baseline | undefined {
+    const { imagePath, recordPath } = this.getPaths(key);
+
+    if (!fs.existsSync(imagePath) || !fs.existsSync(recordPath)) {
+      return undefined;
+    }
+
+    try {
+      const record = JSON.parse(
+        fs.readFileSync(recordPath, "utf8")
+      ) as BaselineRecord;
+      return { imagePath, record };
+    } catch (error) {
+      console.warn(`Ignoring unreadable vibe baseline ${recordPath}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Accept a screenshot and its verdict as the baseline of a check
+   * @param key Spec, test and check name
+   * @param screenshotPath Path of the screenshot to accept
+   * @param specification Specification it was evaluated against
+   * @param response Verdict to accept
+   * @returns The new baseline
+   */
+  accept(
+    key: BaselineKey,
+    screenshotPath: string,
+    specification: string,
+    response: LLMResponse
+  ): Baseline {
+    const { imagePath, recordPath } = this.getPaths(key);
+    const record: BaselineRecord = {
+      specification,
+      verdict: response.verdict,
+      confidence: response.confidence,
+      reasoning: response.reasoning,
+      provider: response.provider,
+      acceptedAt: new Date().toISOString(),
+    };
+
+    ensureDirSync(path.dirname(imagePath));
+    fs.copyFileSync(screenshotPath, imagePath);
+    fs.writeFileSync(recordPath, JSON.stringify(record, null, 2) + "\n");
+
+    return { imagePath, record };
+  }
+
+  /**
+   * Check whether a screenshot is byte for byte the baseline screenshot
+   * @param baseline Baseline to compare with
+   * @param screenshotPath Path of the current screenshot
+   * @returns True if nothing changed
+   */
+  isUnchanged(baseline: Baseline, screenshotPath: string): boolean {
+    return fs
+      .readFileSync(baseline.imagePath)
+      .equals(fs.readFileSync(screenshotPath));
+  }
+
+  /**
+   * Get the files of a baseline
+   * @param key Spec, test and check name
+   * @returns Paths of the screenshot and the accepted verdict
+   */
+  private getPaths(key: BaselineKey): {
+    imagePath: string;
+    recordPath: string;
+  } {
+    const base = path.join(
+      this.options.directory,
+      ...key.spec.split(/[\\/]/).map(toFileName),
+      toFileName(key.test.join("__")),
+      toFileName(key.check)
+    );
+
+    return { imagePath: `${base}.png`, recordPath: `${base}.json` };
+  }
+}
@@ -0,0 +1,220 @@
+import {
+  ConsensusStrategy,
+  CriterionResult,
+  LLMResponse,
+  LLMUsage,
+  ProviderResult,
+} from "../types/llm";
+import { LLMProviderError, withUsage } from "../providers/errors";
+import { summarizeCriteria } from "../providers/response-parser";
+
+/**
+ * Combine the results of several providers into a single response
+ * @param strategy How to combine the verdicts
+ * @param results Result of each provider, including failed ones
+ * @returns Combined response, with each provider's result kept in providerResults
+ */
+export function combineConsensus(
+  strategy: ConsensusStrategy,
+  results: ProviderResult[]
+): LLMResponse {
+  const answered = results.filter(
+    (result): result is ProviderResult & { response: LLMResponse } =>
+      !!result.response
+  );
+  const failed = results.filter((result) => !result.response);
+
+  if (answered.length === 0) {
+    // Report the class of the failures when all providers failed the same way
+    const types = Array.from(new Set(failed.map((result) => result.errorType)));
+
+    throw withUsage(
+      new LLMProviderError(
+        `All consensus providers failed: ${failed
+          .map((result) => `${result.provider}: ${result.error}`)
+          .join("; ")}`,
+        types.length === 1 ? types[0] : "unknown"
+      ),
+      failed.flatMap((result) => result.usage || [])
+    );
+  }
+
+  const yes = answered.filter((result) => result.response.verdict === "yes");
+  const no = answered.filter((result) => result.response.verdict === "no");
+  const mean = (values: number[]) =>
+    values.reduce((sum, value) => sum + value, 0) / values.length;
+
+  let verdict: LLMResponse["verdict"];
+  let confidence: number;
+
+  switch (strategy) {
+    case "all":
+      // Every provider has to answer and pass, the weakest pass sets the confidence
+      verdict = no.length === 0 && failed.length === 0 ? "yes" : "no";
+      confidence =
+        verdict === "yes"
+          ? Math.min(...yes.map((result) => result.response.confidence))
+          : no.length > 0
+            ? Math.max(...no.map((result) => result.response.confidence))
+            : 0;
+      break;
+
+    case "mean-confidence": {
+      // Each provider's confidence that the UI passes, averaged
+      const passScore = mean(
+        answered.map((result) =>
+          result.response.verdict === "yes"
+            ? result.response.confidence
+            : 1 - result.response.confidence
+        )
+      );
+      verdict = passScore >= 0.5 ? "yes" : "no";
+      confidence = verdict === "yes" ? passScore : 1 - passScore;
+      break;
+    }
+
+    case "majority":
+    default: {
+      // Ties fail, the agreeing providers' mean confidence is used
+      verdict = yes.length > no.length ? "yes" : "no";
+      const agreeing = verdict === "yes" ? yes : no;
+      confidence =
+        agreeing.length > 0
+          ? mean(agreeing.map((result) => result.response.confidence))
+          : 0;
+      break;
+    }
+  }
+
+  const reasoning = results
+    .map((result) =>
+      result.response
+        ? `[${result.provider}] ${
+            result.response.verdict
+          } (${result.response.confidence.toFixed(2)}): ${
+            result.response.reasoning || "No reasoning provided"
+          }`
+        : `[${result.provider}] failed: ${result.error}`
+    )
+    .join("\n");
+
+  const failReasons = [
+    ...no.map(
+      (result) =>
+        `[${result.provider}] ${
+          result.response.failReason || "Did not match the specification"
+        }`
+    ),
+    ...(strategy === "all"
+      ? failed.map((result) => `[${result.provider}] ${result.error}`)
+      : []),
+  ];
+
+  // Tokens add up, failed providers included, the providers are asked in
+  // parallel so the slowest sets the latency
+  const usages = results.flatMap((result) =>
+    result.response
+      ? result.response.usage
+        ? [result.response.usage]
+        : []
+      : result.usage || []
+  );
+  const usage: LLMUsage | undefined =
+    usages.length > 0
+      ? {
+          model: Array.from(
+            new Set(usages.map((item) => item.model).filter(Boolean))
+          ).join(", "),
+          inputTokens: usages.reduce((sum, item) => sum + item.inputTokens, 0),
+          outputTokens: usages.reduce(
+            (sum, item) => sum + item.outputTokens,
+            0
+          ),
+          latencyMs: Math.max(...usages.map((item) => item.latencyMs)),
+        }
+      : undefined;
+
+  const suggestions = Array.from(
+    new Set(answered.flatMap((result) => result.response.suggestions || []))
+  );
+
+  const combined: LLMResponse = {
+    verdict,
+    confidence,
+    reasoning: `Consensus (${strategy}) of ${answered.length}/${results.length} providers:\n${reasoning}`,
+    failReason:
+      verdict === "no" && failReasons.length > 0
+        ? failReasons.join("; ")
+        : undefined,
+    suggestions: suggestions.length > 0 ? suggestions : undefined,
+    // The step named by the first failing provider that named one
+    failedStep:
+      verdict === "no"
+        ? no.find((result) => result.response.failedStep)?.response.failedStep
+        : undefined,
+    providerResults: results,
+    usage,
+  };
+
+  // Checklists are combined criterion by criterion, the overall verdict follows from them
+  const criteria = combineCriteria(strategy, results);
+
+  return criteria
+    ? {
+        ...combined,
+        ...summarizeCriteria(criteria),
+        reasoning: combined.reasoning,
+      }
+    : combined;
+}
+
+/**
+ * Combine the checklist verdicts of several providers, criterion by criterion
+ * @param strategy How to combine the verdicts
+ * @param results Result of each provider, including failed ones
+ * @returns Combined verdict on each criterion, or undefined if not every
+ * answering provider evaluated a checklist
+ */
+function combineCriteria(
+  strategy: ConsensusStrategy,
+  results: ProviderResult[]
+): CriterionResult[] | undefined {
+  const answered = results.filter((result) => result.response);
+  const checklists = answered
+    .map((result) => result.response?.criteria)
+    .filter((criteria): criteria is CriterionResult[] => !!criteria);
+
+  if (checklists.length === 0 || checklists.length !== answered.length) {
+    return undefined;
+  }
+
+  // Every provider lists the criteria in the order they were asked for
+  return checklists[0].map((criterion, index) => {
+    const answers = results.map((result) => ({
+      ...result,
+      response: result.response?.criteria?.[index],
+    }));
+    const combined = combineConsensus(strategy, answers);
+
+    // Elements named by the providers that agree with the combined verdict
+    const elements = Array.from(
+      new Set(
+        answers.flatMap((answer) =>
+          answer.response?.verdict === combined.verdict
+            ? answer.response.elements || []
+            : []
+        )
+      )
+    );
+
+    return {
+      name: criterion.name,
+      specification: criterion.specification,
+      verdict: combined.verdict,
+      confidence: combined.confidence,
+      reasoning: combined.reasoning,
+      failReason: combined.failReason,
+      elements: elements.length > 0 ? elements : undefined,
+    };
+  });
+}
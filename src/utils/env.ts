@@ -45,7 +45,20 @@ export function getApiKey(envVarName: string): string | undefined {
 export const ENV_VARS = {
   OPENAI_API_KEY: "OPENAI_API_KEY",
   ANTHROPIC_API_KEY: "ANTHROPIC_API_KEY",
+  GEMINI_API_KEY: "GEMINI_API_KEY",
+  AZURE_OPENAI_API_KEY: "AZURE_OPENAI_API_KEY",
+  AZURE_OPENAI_ENDPOINT: "AZURE_OPENAI_ENDPOINT",
+  AZURE_OPENAI_DEPLOYMENT: "AZURE_OPENAI_DEPLOYMENT",
+  AZURE_OPENAI_API_VERSION: "AZURE_OPENAI_API_VERSION",
+  OPENAI_COMPATIBLE_API_KEY: "OPENAI_COMPATIBLE_API_KEY",
+  OPENAI_COMPATIBLE_BASE_URL: "OPENAI_COMPATIBLE_BASE_URL",
   VIBE_DEFAULT_PROVIDER: "VIBE_DEFAULT_PROVIDER",
+  VIBE_LOCAL_BASE_URL: "VIBE_LOCAL_BASE_URL",
+  VIBE_LOCAL_MODEL: "VIBE_LOCAL_MODEL",
+  VIBE_MOCK_FIXTURE: "VIBE_MOCK_FIXTURE",
+  VIBE_CACHE: "VIBE_CACHE",
+  VIBE_CASSETTE: "VIBE_CASSETTE",
+  VIBE_UPDATE_BASELINES: "VIBE_UPDATE_BASELINES",
   NODE_ENV: "NODE_ENV",
 };
 
@@ -68,11 +81,14 @@ export function validateEnv(): void {
   if (isProd) {
     // In production, we need at least one API key
     const hasAnyApiKey =
-      hasEnv(ENV_VARS.OPENAI_API_KEY) || hasEnv(ENV_VARS.ANTHROPIC_API_KEY);
+      hasEnv(ENV_VARS.OPENAI_API_KEY) ||
+      hasEnv(ENV_VARS.ANTHROPIC_API_KEY) ||
+      hasEnv(ENV_VARS.GEMINI_API_KEY) ||
+      hasEnv(ENV_VARS.AZURE_OPENAI_API_KEY);
 
     if (!hasAnyApiKey) {
       console.error(
-        "No API keys provided. At least one of OPENAI_API_KEY or ANTHROPIC_API_KEY must be set in production."
+        "No API keys provided. At least one of OPENAI_API_KEY, ANTHROPIC_API_KEY, GEMINI_API_KEY or AZURE_OPENAI_API_KEY must be set in production."
       );
     }
 
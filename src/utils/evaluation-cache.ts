@@ -0,0 +1,188 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { LLMResponse } from "../types/llm";
+import { ensureDirSync } from "./fs-utils";
+
+/**
+ * Options of the evaluation cache
+ */
+export interface EvaluationCacheOptions {
+  /** Directory holding the cache entries */
+  directory: string;
+
+  /** How long an entry stays valid in milliseconds */
+  ttlMs: number;
+
+  /** Ignore existing entries, but still store new results */
+  refresh?: boolean;
+}
+
+/**
+ * Everything that determines the answer to an evaluation
+ */
+export interface EvaluationCacheKeyParts {
+  /** Path of the screenshot, its contents are hashed */
+  screenshotPath: string;
+
+  /** Specification text */
+  specification: string;
+
+  /** Paths of the other images sent, such as references or flow steps, their contents are hashed */
+  additionalImagePaths?: string[];
+
+  /** Providers involved, with their models, e.g. "openai:gpt-4o" */
+  providers: string[];
+
+  /** Version of the prompts sent to the models */
+  promptVersion: string;
+
+  /** Other options changing the answer (consensus strategy, model parameters) */
+  options?: Record<string, unknown>;
+}
+
+/**
+ * A cached evaluation on disk
+ */
+interface CacheEntry {
+  /** When the entry was written, in milliseconds since the epoch */
+  createdAt: number;
+
+  /** The cached response */
+  response: LLMResponse;
+}
+
+/**
+ * Disk cache of evaluation results
+ * Unchanged screenshots checked against the same specification with the
+ * same models get their previous answer back without calling the model
+ */
+export class EvaluationCache {
+  /** Options of the cache */
+  private options: EvaluationCacheOptions;
+
+  /**
+   * Creates a new evaluation cache
+   * @param options Directory, time to live, and refresh mode
+   */
+  constructor(options: EvaluationCacheOptions) {
+    this.options = {
+      ...options,
+      directory: path.resolve(process.cwd(), options.directory),
+    };
+  }
+
+  /**
+   * Compute the cache key of an evaluation
+   * @param parts Everything that determines the answer
+   * @returns Hex encoded SHA-256 key
+   */
+  async getKey(parts: EvaluationCacheKeyParts): Promise<string> {
+    const image = await fs.promises.readFile(parts.screenshotPath);
+    const imageHash = crypto.createHash("sha256").update(image).digest("hex");
+    const additionalHashes = await Promise.all(
+      (parts.additionalImagePaths || []).map(async (imagePath) =>
+        crypto
+          .createHash("sha256")
+          .update(await fs.promises.readFile(imagePath))
+          .digest("hex")
+      )
+    );
+
+    return crypto
+      .createHash("sha256")
+      .update(
+        JSON.stringify({
+          imageHash,
+          // Left out without other images, so existing keys stay valid
+          additionalHashes: additionalHashes.length
+            ? additionalHashes
+            : undefined,
+          specification: parts.specification,
+          providers: parts.providers,
+          promptVersion: parts.promptVersion,
+          options: parts.options || {},
+        })
+      )
+      .digest("hex");
+  }
+
+  /**
+   * Look up a cached response
+   * @param key Cache key
+   * @returns Cached response, or undefined if missing, expired, or refreshing
+   */
+  get(key: string): LLMResponse | undefined {
+    if (this.options.refresh) {
+      return undefined;
+    }
+
+    const entryPath = this.getEntryPath(key);
+
+    if (!fs.existsSync(entryPath)) {
+      return undefined;
+    }
+
+    try {
+      const entry = JSON.parse(
+        fs.readFileSync(entryPath, "utf8")
+      ) as CacheEntry;
+
+      if (Date.now() - entry.createdAt > this.options.ttlMs) {
+        fs.unlinkSync(entryPath);
+        return undefined;
+      }
+
+      return entry.response;
+    } catch (error) {
+      console.warn(`Ignoring unreadable vibe cache entry ${entryPath}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Store a response
+   * @param key Cache key
+   * @param response Response to store
+   */
+  set(key: string, response: LLMResponse): void {
+    const entry: CacheEntry = { createdAt: Date.now(), response };
+
+    try {
+      ensureDirSync(this.options.directory);
+      fs.writeFileSync(this.getEntryPath(key), JSON.stringify(entry));
+    } catch (error) {
+      // A failing cache must not fail the check
+      console.warn("Could not write vibe cache entry:", error);
+    }
+  }
+
+  /**
+   * Remove every entry of the cache
+   * @returns Number of entries removed
+   */
+  clear(): number {
+    if (!fs.existsSync(this.options.directory)) {
+      return 0;
+    }
+
+    const entries = fs
+      .readdirSync(this.options.directory)
+      .filter((file) => file.endsWith(".json"));
+
+    for (const file of entries) {
+      fs.unlinkSync(path.join(this.options.directory, file));
+    }
+
+    return entries.length;
+  }
+
+  /**
+   * Get the file of a cache entry
+   * @param key Cache key
+   * @returns Path of the entry file
+   */
+  private getEntryPath(key: string): string {
+    return path.join(this.options.directory, `${key}.json`);
+  }
+}
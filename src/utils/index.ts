@@ -3,3 +3,8 @@ export * from "./env";
 export * from "./llm-initializer";
 export * from "./llm-service";
 export * from "./fs-utils";
+export * from "./consensus";
+export * from "./usage";
+export * from "./evaluation-cache";
+export * from "./request-queue";
+export * from "./baseline-store";
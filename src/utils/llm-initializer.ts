@@ -1,12 +1,16 @@
 import { loadConfig } from "../config/config";
 import { llmService, LLMService } from "./llm-service";
+import { EvaluationCache } from "./evaluation-cache";
 
 /**
  * Initialize the LLM service with the configuration
+ * @param cypressEnvConfig Optional "vibe" object from the Cypress environment
  * @returns The initialized LLM service
  */
-export function initializeLLMService(): LLMService {
-  const config = loadConfig();
+export function initializeLLMService(
+  cypressEnvConfig?: Record<string, any>
+): LLMService {
+  const config = loadConfig(cypressEnvConfig);
 
   // Register providers from the configuration
   for (const [name, providerConfig] of Object.entries(config.providers)) {
@@ -20,5 +24,15 @@ export function initializeLLMService(): LLMService {
     );
   }
 
+  llmService.setCache(
+    config.cache.enabled
+      ? new EvaluationCache({
+          directory: config.cache.directory,
+          ttlMs: config.cache.ttlMs,
+          refresh: config.cache.refresh,
+        })
+      : null
+  );
+
   return llmService;
 }
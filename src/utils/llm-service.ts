@@ -1,11 +1,24 @@
 import {
+  ConsensusStrategy,
   LLMProvider,
-  LLMProviderConfig,
-  LLMProviderType,
+  LLMProviderRegistration,
   LLMResponse,
   EvaluateOptions,
+  ExtractionResponse,
+  ExtractionShape,
+  ProviderLimits,
+  ProviderResult,
 } from "../types/llm";
-import { createLLMProvider } from "../providers";
+import { createLLMProvider, PROMPT_VERSION } from "../providers";
+import {
+  LLMProviderError,
+  toProviderError,
+  withUsage,
+} from "../providers/errors";
+import { combineConsensus } from "./consensus";
+import { EvaluationCache } from "./evaluation-cache";
+import { RequestQueue } from "./request-queue";
+import { getMaxDuration, getTaskTimeout } from "./task-timeout";
 
 /**
  * Service class for managing LLM providers and evaluations
@@ -17,24 +30,50 @@ export class LLMService {
   /** Default provider to use when none is specified */
   private defaultProvider: string | null = null;
 
+  /** Disk cache of evaluation results, null when caching is disabled */
+  private cache: EvaluationCache | null = null;
+
+  /** Evaluation queues of the providers with limits that cannot limit their own requests */
+  private queues: Map<string, RequestQueue> = new Map();
+
+  /**
+   * Set the evaluation cache
+   * @param cache Cache to use, or null to disable caching
+   */
+  setCache(cache: EvaluationCache | null): void {
+    this.cache = cache;
+  }
+
+  /**
+   * Remove every cached evaluation
+   * @returns Number of entries removed
+   */
+  clearCache(): number {
+    return this.cache ? this.cache.clear() : 0;
+  }
+
   /**
    * Register an LLM provider with the service
    * @param name Unique name for the provider
-   * @param provider Provider instance or provider type and config
+   * @param provider Provider instance, provider factory, or provider type and config
    * @param makeDefault Whether to make this the default provider
    * @returns The registered provider instance
+   * @remarks Limits in a type and config registration (maxConcurrency,
+   * requestsPerMinute) are applied with setProviderLimits
    */
   registerProvider(
     name: string,
-    provider:
-      | LLMProvider
-      | { type: LLMProviderType; config: LLMProviderConfig },
+    provider: LLMProviderRegistration,
     makeDefault = false
   ): LLMProvider {
     let providerInstance: LLMProvider;
 
+    // If we were given a factory, call it to get the instance
+    if (typeof provider === "function") {
+      providerInstance = provider();
+    }
     // If we were given a provider instance, use it directly
-    if ("evaluateScreenshot" in provider) {
+    else if ("evaluateScreenshot" in provider) {
       providerInstance = provider;
     } else {
       // Otherwise, create a new provider of the specified type
@@ -43,6 +82,18 @@ export class LLMService {
 
     // Register the provider
     this.providers.set(name, providerInstance);
+    this.queues.delete(name);
+
+    if (
+      typeof provider === "object" &&
+      "config" in provider &&
+      (provider.config.maxConcurrency || provider.config.requestsPerMinute)
+    ) {
+      this.setProviderLimits(name, {
+        maxConcurrency: provider.config.maxConcurrency,
+        requestsPerMinute: provider.config.requestsPerMinute,
+      });
+    }
 
     // Set as default if requested or if it's the first provider
     if (makeDefault || this.defaultProvider === null) {
@@ -52,6 +103,35 @@ export class LLMService {
     return providerInstance;
   }
 
+  /**
+   * Limit the requests sent to a provider
+   * Providers with setRequestLimits queue their API requests, for the others
+   * whole evaluations wait in a first-in, first-out queue
+   * @param name Name of the provider
+   * @param limits Maximum concurrency and requests per minute, or null to remove the limits
+   */
+  setProviderLimits(name: string, limits: ProviderLimits | null): void {
+    const provider = this.providers.get(name);
+
+    if (provider?.setRequestLimits) {
+      provider.setRequestLimits(limits);
+      this.queues.delete(name);
+    } else if (limits && (limits.maxConcurrency || limits.requestsPerMinute)) {
+      this.queues.set(name, new RequestQueue(limits));
+    } else {
+      this.queues.delete(name);
+    }
+  }
+
+  /**
+   * Check whether a provider is registered under the given name
+   * @param name Name of the provider
+   * @returns True if the provider is registered
+   */
+  hasProvider(name: string): boolean {
+    return this.providers.has(name);
+  }
+
   /**
    * Set the default provider to use when none is specified
    * @param name Name of the provider to set as default
@@ -85,8 +165,38 @@ export class LLMService {
     return provider;
   }
 
+  /**
+   * Get the longest time an evaluation may take with the registered providers
+   * Sizes the timeout of the Cypress task behind a check
+   * @param options Evaluation options of the check
+   * @param providerName Name of the provider to use, or the default if not specified
+   * @returns Upper bound in milliseconds
+   */
+  getTaskTimeout(options: EvaluateOptions = {}, providerName?: string): number {
+    return getTaskTimeout(
+      options,
+      providerName || this.defaultProvider || "",
+      (name, evaluations) => {
+        const provider = this.providers.get(name);
+
+        if (provider?.getMaxDuration) {
+          return provider.getMaxDuration(options, evaluations);
+        }
+
+        // Evaluations of other providers wait in the queue of the service
+        return getMaxDuration(
+          this.queues.get(name)?.limits || {},
+          options,
+          evaluations
+        );
+      }
+    );
+  }
+
   /**
    * Evaluate a screenshot against a specification using the specified provider
+   * Answers from the evaluation cache when the same screenshot was already
+   * evaluated against the same specification with the same models
    * @param screenshotPath Path to the screenshot to evaluate
    * @param specification Specification text to evaluate against
    * @param options Evaluation options
@@ -99,8 +209,311 @@ export class LLMService {
     options: EvaluateOptions = {},
     providerName?: string
   ): Promise<LLMResponse> {
-    const provider = this.getProvider(providerName);
-    return provider.evaluateScreenshot(screenshotPath, specification, options);
+    const { cache: cacheMode = true, ...evaluateOptions } = options;
+
+    // Every provider that may answer is part of the key
+    const providerNames = evaluateOptions.consensus?.providers.length
+      ? evaluateOptions.consensus.providers
+      : [
+          providerName || this.defaultProvider || "",
+          ...(evaluateOptions.fallbackProviders || []),
+        ];
+
+    const cache =
+      cacheMode !== false &&
+      providerNames.every(
+        (name) => this.providers.get(name)?.cacheable !== false
+      )
+        ? this.cache
+        : null;
+
+    if (!cache) {
+      return this.evaluateUncached(
+        screenshotPath,
+        specification,
+        evaluateOptions,
+        providerName
+      );
+    }
+
+    const key = await cache.getKey({
+      screenshotPath,
+      specification,
+      additionalImagePaths: [
+        ...(evaluateOptions.referenceImages || []),
+        ...(evaluateOptions.flowSteps || []),
+      ].map((image) => image.path),
+      providers: providerNames.map(
+        (name) => `${name}:${this.providers.get(name)?.getModel?.() || ""}`
+      ),
+      promptVersion: PROMPT_VERSION,
+      options: {
+        consensusStrategy: evaluateOptions.consensus?.strategy,
+        modelParameters: evaluateOptions.modelParameters,
+        includeRawResponse: evaluateOptions.includeRawResponse,
+        referenceLabels: evaluateOptions.referenceImages?.map(
+          (reference) => reference.label
+        ),
+        flowLabels: evaluateOptions.flowSteps?.map((step) => step.label),
+        criteria: evaluateOptions.criteria?.map((criterion) => criterion.name),
+        a11yFacts: evaluateOptions.a11yFacts,
+      },
+    });
+
+    const cached = cacheMode === "refresh" ? undefined : cache.get(key);
+    if (cached) {
+      return { ...cached, cacheStatus: "hit" };
+    }
+
+    const response = await this.evaluateUncached(
+      screenshotPath,
+      specification,
+      evaluateOptions,
+      providerName
+    );
+    // The queue wait belongs to this evaluation, not to later cache hits
+    const { queueWaitMs, ...cachedResponse } = response;
+    cache.set(key, cachedResponse);
+
+    return { ...response, cacheStatus: "miss" };
+  }
+
+  /**
+   * Read structured data off a screenshot with the specified provider
+   * Extractions are not cached and do not use consensus or fallback providers
+   * @param screenshotPath Path to the screenshot to read
+   * @param shape Fields to extract and their types
+   * @param options Evaluation options
+   * @param providerName Name of the provider to use, or the default if not specified
+   * @returns Extracted data
+   */
+  async extractData(
+    screenshotPath: string,
+    shape: ExtractionShape,
+    options: EvaluateOptions = {},
+    providerName?: string
+  ): Promise<ExtractionResponse> {
+    const name = providerName || this.defaultProvider;
+
+    if (!name) {
+      throw new Error("No provider specified and no default provider is set");
+    }
+
+    const provider = this.getProvider(name);
+
+    if (!provider.extractData) {
+      throw new LLMProviderError(
+        `Provider "${name}" does not support data extraction`,
+        "invalid-request"
+      );
+    }
+
+    const extractData = provider.extractData.bind(provider);
+    const { cache, consensus, fallbackProviders, ...providerOptions } = options;
+    const response = await this.runQueued(name, () =>
+      extractData(screenshotPath, shape, providerOptions)
+    );
+
+    return { ...response, provider: response.provider || name };
+  }
+
+  /**
+   * Evaluate a screenshot with the selected provider, its fallbacks, or a consensus
+   * @param screenshotPath Path to the screenshot to evaluate
+   * @param specification Specification text to evaluate against
+   * @param options Evaluation options
+   * @param providerName Name of the provider to use, or the default if not specified
+   * @returns LLM response
+   */
+  private async evaluateUncached(
+    screenshotPath: string,
+    specification: string,
+    options: EvaluateOptions,
+    providerName?: string
+  ): Promise<LLMResponse> {
+    const { consensus, fallbackProviders, ...providerOptions } = options;
+
+    // Fan out to several providers and combine their verdicts
+    if (consensus && consensus.providers.length > 0) {
+      return this.evaluateWithConsensus(
+        screenshotPath,
+        specification,
+        providerOptions,
+        consensus.providers,
+        consensus.strategy || "majority"
+      );
+    }
+
+    const name = providerName || this.defaultProvider;
+
+    if (!name) {
+      throw new Error("No provider specified and no default provider is set");
+    }
+
+    // Try the selected provider first, then the fallbacks in order
+    const chain = [name, ...(fallbackProviders || [])].filter(
+      (candidate, index, all) => all.indexOf(candidate) === index
+    );
+    const failedProviders: ProviderResult[] = [];
+    let lastError: LLMProviderError | undefined;
+
+    for (const candidate of chain) {
+      if (candidate !== name && !this.providers.has(candidate)) {
+        console.warn(`Fallback provider "${candidate}" is not registered`);
+        continue;
+      }
+
+      try {
+        const response = await this.evaluateWithProvider(
+          candidate,
+          screenshotPath,
+          specification,
+          providerOptions
+        );
+
+        return {
+          ...response,
+          provider: response.provider || candidate,
+          failedProviders:
+            failedProviders.length > 0 ? failedProviders : undefined,
+        };
+      } catch (error) {
+        lastError = toProviderError(error);
+        failedProviders.push({
+          provider: candidate,
+          error: lastError.message,
+          errorType: lastError.type,
+          usage: lastError.usage,
+        });
+
+        if (chain.length > 1) {
+          console.warn(
+            `Provider "${candidate}" failed, ${
+              candidate === chain[chain.length - 1]
+                ? "no fallback providers left"
+                : "trying the next fallback provider"
+            }`
+          );
+        }
+      }
+    }
+
+    // The selected provider always ends up in failedProviders, so lastError is set
+    if (failedProviders.length === 1) {
+      throw lastError!;
+    }
+
+    // Keep the class of the last failure, so it can be reported
+    const chainError = new LLMProviderError(
+      failedProviders
+        .map((result) => `${result.provider}: ${result.error}`)
+        .join("; "),
+      lastError!.type,
+      { status: lastError!.status }
+    );
+    chainError.attempts = lastError!.attempts;
+    throw withUsage(
+      chainError,
+      failedProviders.flatMap((result) => result.usage || [])
+    );
+  }
+
+  /**
+   * Evaluate a screenshot with several providers in parallel and combine the results
+   * @param screenshotPath Path to the screenshot to evaluate
+   * @param specification Specification text to evaluate against
+   * @param options Evaluation options passed to each provider
+   * @param providerNames Names of the providers to ask
+   * @param strategy How to combine the verdicts
+   * @returns Combined LLM response
+   */
+  private async evaluateWithConsensus(
+    screenshotPath: string,
+    specification: string,
+    options: EvaluateOptions,
+    providerNames: string[],
+    strategy: ConsensusStrategy
+  ): Promise<LLMResponse> {
+    // Resolve all providers first, so a typo fails before any request is sent
+    providerNames.forEach((name) => this.getProvider(name));
+
+    const results: ProviderResult[] = await Promise.all(
+      providerNames.map((name) =>
+        this.evaluateWithProvider(
+          name,
+          screenshotPath,
+          specification,
+          options
+        ).then(
+          (response) => ({ provider: name, response }),
+          (error) => {
+            const providerError = toProviderError(error);
+            return {
+              provider: name,
+              error: providerError.message,
+              errorType: providerError.type,
+              usage: providerError.usage,
+            };
+          }
+        )
+      )
+    );
+
+    const response = combineConsensus(strategy, results);
+    const waits = results
+      .map((result) => result.response?.queueWaitMs)
+      .filter((wait): wait is number => wait !== undefined);
+
+    // The providers wait in parallel, the longest wait delayed the result
+    return waits.length > 0
+      ? { ...response, queueWaitMs: Math.max(...waits) }
+      : response;
+  }
+
+  /**
+   * Evaluate a screenshot with one provider, waiting for its queue if it has limits
+   * @param name Name of the provider
+   * @param screenshotPath Path to the screenshot to evaluate
+   * @param specification Specification text to evaluate against
+   * @param options Evaluation options passed to the provider
+   * @returns LLM response, with the queue wait when the provider has limits
+   */
+  private async evaluateWithProvider(
+    name: string,
+    screenshotPath: string,
+    specification: string,
+    options: EvaluateOptions
+  ): Promise<LLMResponse> {
+    const provider = this.getProvider(name);
+
+    return this.runQueued(name, () =>
+      provider.evaluateScreenshot(screenshotPath, specification, options)
+    );
+  }
+
+  /**
+   * Run a request to a provider, waiting for its queue if it has limits
+   * @param name Name of the provider
+   * @param request Request to run
+   * @returns Result of the request, with the queue wait when the provider has limits
+   */
+  private async runQueued<T extends { queueWaitMs?: number }>(
+    name: string,
+    request: () => Promise<T>
+  ): Promise<T> {
+    const queue = this.queues.get(name);
+
+    if (!queue) {
+      return request();
+    }
+
+    const { value, waitMs } = await queue.run(request);
+
+    if (waitMs > 0) {
+      console.log(`Provider "${name}" request waited ${waitMs}ms in queue`);
+    }
+
+    return { ...value, queueWaitMs: waitMs };
   }
 }
 
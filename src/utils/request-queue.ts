@@ -0,0 +1,89 @@
+import { ProviderLimits } from "../types/llm";
+
+/**
+ * First-in, first-out queue enforcing the limits of one provider
+ */
+export class RequestQueue {
+  /** Length of the rate limit window in milliseconds */
+  static readonly WINDOW_MS = 60000;
+
+  /** Limits of the provider */
+  readonly limits: ProviderLimits;
+
+  /** Number of tasks in flight */
+  private active = 0;
+
+  /** Start times of the tasks in the current window */
+  private starts: number[] = [];
+
+  /** Callbacks of the caller waiting for a running task to finish */
+  private released: (() => void)[] = [];
+
+  /** Last acquisition, each caller waits for the one before it */
+  private tail: Promise<void> = Promise.resolve();
+
+  /**
+   * Creates a new request queue
+   * @param limits Limits of the provider
+   */
+  constructor(limits: ProviderLimits) {
+    this.limits = limits;
+  }
+
+  /**
+   * Run a task once the limits allow it
+   * @param task Task to run
+   * @returns Result of the task and the time it waited in the queue
+   */
+  async run<T>(task: () => Promise<T>): Promise<{ value: T; waitMs: number }> {
+    const queuedAt = Date.now();
+
+    const acquired = this.tail.then(() => this.waitForSlot());
+    this.tail = acquired;
+    await acquired;
+
+    const waitMs = Date.now() - queuedAt;
+
+    try {
+      return { value: await task(), waitMs };
+    } finally {
+      this.active--;
+      this.released.shift()?.();
+    }
+  }
+
+  /**
+   * Wait until a task may start, then reserve a slot for it
+   */
+  private async waitForSlot(): Promise<void> {
+    const { maxConcurrency, requestsPerMinute } = this.limits;
+
+    for (;;) {
+      if (maxConcurrency && this.active >= maxConcurrency) {
+        await new Promise<void>((resolve) => this.released.push(resolve));
+        continue;
+      }
+
+      if (requestsPerMinute) {
+        const now = Date.now();
+        this.starts = this.starts.filter(
+          (start) => now - start < RequestQueue.WINDOW_MS
+        );
+
+        if (this.starts.length >= requestsPerMinute) {
+          // Wait for the oldest start to leave the window
+          const delayMs = this.starts[0] + RequestQueue.WINDOW_MS - now;
+          await new Promise((resolve) => setTimeout(resolve, delayMs));
+          continue;
+        }
+      }
+
+      if (requestsPerMinute) {
+        this.starts.push(Date.now());
+      }
+
+      this.active++;
+      return;
+    }
+  }
+}
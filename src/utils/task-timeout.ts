@@ -0,0 +1,85 @@
+import { EvaluateOptions, LLMProviderConfig } from "../types/llm";
+import { resolveRetryPolicy } from "../providers/retry-policy";
+import { RequestQueue } from "./request-queue";
+
+/** Timeout of a single API request when the provider sets none, as in BaseLLMProvider */
+const DEFAULT_REQUEST_TIMEOUT_MS = 60000;
+
+/** Time left for reading screenshots and passing results between Cypress and Node.js */
+const OVERHEAD_MS = 10000;
+
+/**
+ * Estimate how long the Node.js side may take to answer an evaluation task,
+ * so the Cypress task does not time out while requests wait, retry or fall
+ * back to other providers
+ * @param options Evaluation options of the check
+ * @param providerName Selected provider
+ * @param getMaxDuration Longest time a provider may take for evaluations started together
+ * @returns Upper bound of the task in milliseconds
+ */
+export function getTaskTimeout(
+  options: EvaluateOptions,
+  providerName: string,
+  getMaxDuration: (name: string, evaluations: number) => number
+): number {
+  // Consensus providers are asked at the same time, a provider listed
+  // several times queues its evaluations behind each other
+  if (options.consensus?.providers.length) {
+    const counts = new Map<string, number>();
+    for (const name of options.consensus.providers) {
+      counts.set(name, (counts.get(name) || 0) + 1);
+    }
+
+    return (
+      Math.max(
+        ...Array.from(counts, ([name, evaluations]) =>
+          getMaxDuration(name, evaluations)
+        )
+      ) + OVERHEAD_MS
+    );
+  }
+
+  // Each fallback provider is only tried once the one before it gave up
+  const chain = [providerName, ...(options.fallbackProviders || [])].filter(
+    (candidate, index, all) => all.indexOf(candidate) === index
+  );
+
+  return (
+    chain.reduce((total, name) => total + getMaxDuration(name, 1), 0) +
+    OVERHEAD_MS
+  );
+}
+
+/**
+ * Longest time evaluations started together may take with one provider
+ * @param config Configuration of the provider, with its limits
+ * @param options Evaluation options of the check
+ * @param evaluations Number of evaluations started together
+ * @returns Queue waits, requests and retry delays in milliseconds
+ */
+export function getMaxDuration(
+  config: LLMProviderConfig,
+  options: EvaluateOptions,
+  evaluations: number
+): number {
+  const policy = resolveRetryPolicy(config.retryPolicy, options.retryPolicy);
+  const attempts = options.maxRetries || config.defaultMaxRetries || 1;
+  const requestMs = config.timeoutMs || DEFAULT_REQUEST_TIMEOUT_MS;
+
+  // An attempt sends a repair request when the first answer is malformed
+  const requests = evaluations * attempts * 2;
+  const evaluationMs = attempts * 2 * requestMs + policy.maxTotalWaitMs;
+
+  // Evaluations over the concurrency limit run one batch after another
+  const batches = config.maxConcurrency
+    ? Math.ceil(evaluations / config.maxConcurrency)
+    : 1;
+
+  // Earlier requests may fill the current window, and every further
+  // requestsPerMinute requests of these evaluations wait for another one
+  const queueMs = config.requestsPerMinute
+    ? Math.ceil(requests / config.requestsPerMinute) * RequestQueue.WINDOW_MS
+    : 0;
+
+  return queueMs + batches * evaluationMs;
+}
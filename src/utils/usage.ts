@@ -0,0 +1,304 @@
+import { LLMResponse, LLMUsage, ModelPrice } from "../types/llm";
+
+/**
+ * Default prices of common vision models, in US dollars per million tokens
+ * Models are matched by exact name first, then by the longest matching prefix,
+ * so dated versions like "gpt-4o-2024-08-06" use the price of "gpt-4o"
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "claude-3-7-sonnet": { input: 3, output: 15 },
+  "claude-3-5-sonnet": { input: 3, output: 15 },
+  "claude-3-5-haiku": { input: 0.8, output: 4 },
+  "claude-3-opus": { input: 15, output: 75 },
+  "claude-sonnet-4": { input: 3, output: 15 },
+  "claude-opus-4": { input: 15, output: 75 },
+  "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+  "gemini-1.5-flash": { input: 0.075, output: 0.3 },
+  "gemini-1.5-pro": { input: 1.25, output: 5 },
+};
+
+/**
+ * Limits on what a test run may spend on vibe checks
+ */
+export interface VibeBudget {
+  /** Maximum estimated cost of the run in US dollars */
+  maxCost?: number;
+
+  /** Maximum number of tokens (input and output) of the run */
+  maxTokens?: number;
+
+  /**
+   * What happens to vibe checks once the budget is used up:
+   * - "fail": the check fails with a message saying the budget is exceeded (default)
+   * - "skip": the check is logged as skipped and passes
+   */
+  onExceeded?: "fail" | "skip";
+}
+
+/**
+ * Usage totals of a group of evaluations
+ */
+export interface UsageTotals {
+  /** Number of evaluations */
+  checks: number;
+
+  /** Tokens sent to the models */
+  inputTokens: number;
+
+  /** Tokens generated by the models */
+  outputTokens: number;
+
+  /** Time spent waiting for the APIs in milliseconds */
+  latencyMs: number;
+
+  /** Estimated cost in US dollars, of the priced models only */
+  estimatedCost: number;
+}
+
+/**
+ * Usage of a test run
+ */
+export interface UsageSummary extends UsageTotals {
+  /** Totals of each model */
+  models: Record<string, UsageTotals>;
+
+  /** Models that are not in the price table, their cost is not included */
+  unpricedModels: string[];
+}
+
+/**
+ * Find the price of a model in a price table
+ * @param model Model name
+ * @param prices Price table
+ * @returns Price of the model, or undefined if it is not in the table
+ */
+export function findModelPrice(
+  model: string,
+  prices: Record<string, ModelPrice>
+): ModelPrice | undefined {
+  if (prices[model]) {
+    return prices[model];
+  }
+
+  const prefix = Object.keys(prices)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix ? prices[prefix] : undefined;
+}
+
+/**
+ * Add up the usage of several requests to the same provider
+ * @param usages Usage of each request, in the order they were sent
+ * @returns Combined usage, with the model of the last request that reported one
+ */
+export function sumUsage(usages: LLMUsage[]): LLMUsage {
+  return {
+    model: usages
+      .map((usage) => usage.model)
+      .filter(Boolean)
+      .pop(),
+    inputTokens: usages.reduce((sum, usage) => sum + usage.inputTokens, 0),
+    outputTokens: usages.reduce((sum, usage) => sum + usage.outputTokens, 0),
+    latencyMs: usages.reduce((sum, usage) => sum + usage.latencyMs, 0),
+  };
+}
+
+/**
+ * Estimate the cost of an evaluation
+ * @param usage Token usage of the evaluation
+ * @param prices Price table
+ * @returns Cost in US dollars, or undefined if the model is not in the table
+ */
+export function estimateCost(
+  usage: LLMUsage,
+  prices: Record<string, ModelPrice>
+): number | undefined {
+  const price = usage.model ? findModelPrice(usage.model, prices) : undefined;
+
+  if (!price) {
+    return undefined;
+  }
+
+  return (
+    (usage.inputTokens * price.input + usage.outputTokens * price.output) /
+    1000000
+  );
+}
+
+/**
+ * Prices and sums up the usage of every evaluation in a test run
+ */
+export class UsageTracker {
+  /** Price table, defaults merged with the configured prices */
+  private prices: Record<string, ModelPrice>;
+
+  /** Totals of the run */
+  private totals: UsageTotals = UsageTracker.emptyTotals();
+
+  /** Totals of each model */
+  private models: Map<string, UsageTotals> = new Map();
+
+  /** Models without a price */
+  private unpricedModels: Set<string> = new Set();
+
+  /**
+   * Creates a new usage tracker
+   * @param prices Prices added to or replacing the default prices
+   */
+  constructor(prices: Record<string, ModelPrice> = {}) {
+    this.prices = { ...DEFAULT_MODEL_PRICES, ...prices };
+  }
+
+  /**
+   * Record the usage of an evaluation and fill in its estimated cost
+   * When several providers were asked, each one is priced with its own model.
+   * Failed providers and failed evaluations count with the requests they got answered
+   * @param response Response of the evaluation or extraction, updated in place
+   */
+  record(
+    response: Pick<
+      LLMResponse,
+      "usage" | "providerResults" | "failedProviders" | "error"
+    >
+  ): void {
+    const usages = [
+      ...(response.providerResults
+        ? response.providerResults.flatMap((result) =>
+            result.response
+              ? result.response.usage
+                ? [result.response.usage]
+                : []
+              : result.usage || []
+          )
+        : response.usage
+          ? [response.usage]
+          : []),
+      ...(response.failedProviders || []).flatMap(
+        (result) => result.usage || []
+      ),
+      ...(response.error?.usage || []),
+    ];
+
+    if (usages.length === 0) {
+      return;
+    }
+
+    let cost: number | undefined;
+
+    for (const usage of usages) {
+      const model = usage.model || "unknown";
+      usage.estimatedCost = estimateCost(usage, this.prices);
+
+      if (usage.estimatedCost === undefined) {
+        this.unpricedModels.add(model);
+      } else {
+        cost = (cost || 0) + usage.estimatedCost;
+      }
+
+      if (!this.models.has(model)) {
+        this.models.set(model, UsageTracker.emptyTotals());
+      }
+
+      UsageTracker.add(this.models.get(model)!, usage);
+    }
+
+    // The combined usage of a consensus check gets the sum of the provider costs
+    if (response.usage && response.providerResults) {
+      response.usage.estimatedCost = cost;
+    }
+
+    this.totals.checks++;
+    this.totals.inputTokens += usages.reduce(
+      (sum, usage) => sum + usage.inputTokens,
+      0
+    );
+    this.totals.outputTokens += usages.reduce(
+      (sum, usage) => sum + usage.outputTokens,
+      0
+    );
+    // Consensus providers are asked in parallel, fallback providers one after the other
+    this.totals.latencyMs += response.providerResults
+      ? Math.max(...usages.map((usage) => usage.latencyMs))
+      : usages.reduce((sum, usage) => sum + usage.latencyMs, 0);
+    this.totals.estimatedCost += cost || 0;
+  }
+
+  /**
+   * Check whether the run has used up its budget
+   * @param budget Budget of the run
+   * @returns Message describing the exceeded limit, or null if within budget
+   */
+  checkBudget(budget?: VibeBudget): string | null {
+    if (!budget) {
+      return null;
+    }
+
+    if (
+      budget.maxCost !== undefined &&
+      this.totals.estimatedCost >= budget.maxCost
+    ) {
+      return `Vibe check budget exceeded: estimated cost $${this.totals.estimatedCost.toFixed(
+        4
+      )} of $${budget.maxCost} used after ${this.totals.checks} checks`;
+    }
+
+    const tokens = this.totals.inputTokens + this.totals.outputTokens;
+    if (budget.maxTokens !== undefined && tokens >= budget.maxTokens) {
+      return `Vibe check budget exceeded: ${tokens} of ${budget.maxTokens} tokens used after ${this.totals.checks} checks`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Get the usage of the run so far
+   * @returns Totals of the run and of each model
+   */
+  getSummary(): UsageSummary {
+    return {
+      ...this.totals,
+      models: Object.fromEntries(
+        Array.from(this.models.entries()).map(([model, totals]) => [
+          model,
+          { ...totals },
+        ])
+      ),
+      unpricedModels: Array.from(this.unpricedModels),
+    };
+  }
+
+  /**
+   * Create zeroed totals
+   * @returns Empty totals
+   */
+  private static emptyTotals(): UsageTotals {
+    return {
+      checks: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      latencyMs: 0,
+      estimatedCost: 0,
+    };
+  }
+
+  /**
+   * Add the usage of one evaluation to totals
+   * @param totals Totals to update in place
+   * @param usage Usage to add
+   */
+  private static add(totals: UsageTotals, usage: LLMUsage): void {
+    totals.checks++;
+    totals.inputTokens += usage.inputTokens;
+    totals.outputTokens += usage.outputTokens;
+    totals.latencyMs += usage.latencyMs;
+    totals.estimatedCost += usage.estimatedCost || 0;
+  }
+}